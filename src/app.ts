@@ -2,39 +2,77 @@ import { watch, type FSWatcher } from "node:fs";
 import { join, dirname, basename } from "node:path";
 import pkg from "../package.json";
 import { marked } from "marked";
-import YAML from "yaml";
-import { spawnEnv } from "./local-index.ts";
 import {
   type CliRenderer,
   BoxRenderable,
   TextRenderable,
   SelectRenderableEvents,
   type KeyEvent,
-  type StyledText,
+  type Renderable,
+  StyledText,
+  type TextChunk,
   t,
   bold,
   dim,
   fg,
 } from "@opentui/core";
-import type { QmdMcpClient } from "./mcp-client.ts";
+import type { QmdMcpClient, StatusResult } from "./mcp-client.ts";
 import {
   listCollections,
   addCollection,
   removeCollection,
   renameCollection,
-  embed,
+  collectionScopeSupport,
   resolveQmdUri,
   type Collection,
 } from "./qmd-cli.ts";
 import { CollectionsView } from "./views/collections.ts";
+import { HelpView } from "./views/help.ts";
+import { CommandPalette } from "./views/palette.ts";
+import {
+  ACTIONS,
+  getAction,
+  type ActionId,
+  type KeyContext,
+  type Keymap,
+} from "./keymap.ts";
 import { DetailView } from "./views/detail.ts";
-import { SearchView } from "./views/search.ts";
-import { DocumentView } from "./views/document.ts";
+import { SearchView, type SearchMode } from "./views/search.ts";
+import { CompareView } from "./views/compare.ts";
+import {
+  editorCommand,
+  editorFilesCommand,
+  editInTmux,
+  usesTmux,
+  type EditorOptions,
+} from "./editor.ts";
+import { copyToClipboard } from "./clipboard.ts";
+import { bundleFileName, fetchDocuments, formatBundle } from "./bundle.ts";
+import { DocumentView, type DocumentMatch } from "./views/document.ts";
+import { snippetText } from "./views/markdown.ts";
+import { LinkResolver, markdownLink, wikilinkTarget, type LinkRef } from "./links.ts";
+import { LinkGraph } from "./link-graph.ts";
+import {
+  FrontmatterIndex,
+  formatFrontmatterValue,
+  frontmatterTags,
+  splitFrontmatter,
+} from "./frontmatter.ts";
 import { AddCollectionView } from "./views/add-collection.ts";
 import { RenameCollectionView } from "./views/rename-collection.ts";
 import { ConfirmDeleteView } from "./views/confirm-delete.ts";
 import { FilesView } from "./views/files.ts";
+import { JobsView, formatDuration, progressLabel } from "./views/jobs.ts";
+import { JobManager, type Job, type JobKind } from "./jobs.ts";
+import type { CollectionWatcher } from "./watcher.ts";
 import type { Theme } from "./theme.ts";
+import {
+  loadSearchStore,
+  saveSearchStore,
+  pushHistory,
+  type SavedSearch,
+  type SearchStore,
+} from "./search-store.ts";
 
 type AppState =
   | "collections"
@@ -45,9 +83,29 @@ type AppState =
   | "add-collection"
   | "rename-collection"
   | "delete-collection"
-  | "edit-context";
+  | "edit-context"
+  | "compare"
+  | "jobs";
 type FocusArea = "sidebar" | "main";
 
+/** Where to start instead of the "All" overview (`lazyqmd -s`, `-c`, `qmd://...`). */
+export type LaunchTarget =
+  | { kind: "search"; query: string; mode?: SearchMode; collection?: string }
+  | { kind: "collection"; name: string }
+  /** `line` is 1-based, as editors and grep print it. */
+  | { kind: "document"; uri: string; line?: number };
+
+const JOBS_REFRESH_MS = 250;
+
+/** A footer entry: bound action(s), or a key handled by a view itself. */
+type FooterItem =
+  | { action: ActionId | ActionId[]; label?: string }
+  | { key: string; label: string };
+
+function plain(text: string): TextChunk {
+  return { __isChunk: true, text };
+}
+
 export class App {
   private root: BoxRenderable;
   private body: BoxRenderable;
@@ -60,17 +118,33 @@ export class App {
   private collectionsView: CollectionsView;
   private detailView: DetailView;
   private searchView: SearchView;
+  private compareView: CompareView;
   private documentView: DocumentView;
   private addCollectionView: AddCollectionView;
   private renameCollectionView: RenameCollectionView;
   private confirmDeleteView: ConfirmDeleteView;
   private filesView: FilesView;
+  private jobsView: JobsView;
+  private jobs = new JobManager();
+  private jobsRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+  // qmd status for pending embeddings, until the next update/embed
+  private indexStatus: Promise<StatusResult> | null = null;
   private currentContext: string | null = null;
+  private linkResolver = new LinkResolver();
+  private linkGraph: LinkGraph;
+  private frontmatterIndex: FrontmatterIndex;
 
   private state: AppState = "collections";
   private previousState: AppState = "detail";
   private focusArea: FocusArea = "sidebar";
+  private helpView: HelpView;
+  private helpVisible = false;
+  private palette: CommandPalette;
+  private paletteVisible = false;
+  // Focus to restore when the palette closes without running anything
+  private paletteReturnFocus: Renderable | null = null;
   private collections: Collection[] = [];
+  private searchStore: SearchStore = { history: [], saved: [] };
 
   private previewServer: ReturnType<typeof Bun.serve> | null = null;
   private previewWatcher: FSWatcher | null = null;
@@ -82,6 +156,9 @@ export class App {
     private renderer: CliRenderer,
     private mcp: QmdMcpClient,
     private theme: Theme,
+    private keymap: Keymap,
+    private watcher: CollectionWatcher,
+    private editor: EditorOptions = {},
   ) {
     // Root container
     this.root = new BoxRenderable(renderer, {
@@ -147,7 +224,7 @@ export class App {
     });
     this.versionText = new TextRenderable(renderer, {
       id: "version-text",
-      content: t`${dim(`lazyqmd v${pkg.version}`)}`,
+      content: t`${dim(`lazyqmd v${pkg.version} (${mcp.transportLabel})`)}`,
     });
     this.footer.add(this.footerText);
     this.footer.add(this.versionText);
@@ -157,11 +234,16 @@ export class App {
     this.collectionsView = new CollectionsView(renderer, theme);
     this.detailView = new DetailView(renderer, theme);
     this.searchView = new SearchView(renderer, mcp, theme);
+    this.compareView = new CompareView(renderer, mcp, theme);
     this.documentView = new DocumentView(renderer, mcp, theme);
     this.addCollectionView = new AddCollectionView(renderer, theme);
     this.renameCollectionView = new RenameCollectionView(renderer, theme);
     this.confirmDeleteView = new ConfirmDeleteView(renderer, theme);
     this.filesView = new FilesView(renderer, theme);
+    this.jobsView = new JobsView(renderer, theme);
+    this.helpView = new HelpView(renderer, theme, keymap);
+    this.palette = new CommandPalette(renderer, theme, keymap);
+    this.palette.onRun = (id) => this.runFromPalette(id);
 
     // Add collections select to sidebar
     this.sidebar.add(this.collectionsView.select);
@@ -174,14 +256,60 @@ export class App {
       this.showDetail(col);
     });
 
-    this.searchView.setOnDocumentOpen((file, title) => {
-      this.showDocument(file, title);
+    this.searchView.setOnDocumentOpen((file, title, match) => {
+      this.showDocument(file, title, match);
+    });
+    this.compareView.onDocumentOpen = (file, title, match) => {
+      this.showDocument(file, title, match);
+    };
+
+    this.collectionsView.setOnSavedSelected((saved) => {
+      this.runSavedSearch(saved);
     });
 
+    // Search history and saved searches
+    this.searchView.onQueryCommitted = (query) => {
+      pushHistory(this.searchStore, query);
+      this.persistSearchStore();
+    };
+    this.searchView.onSave = (saved) => {
+      this.searchStore.saved = [
+        ...this.searchStore.saved.filter((s) => s.name !== saved.name),
+        saved,
+      ];
+      this.collectionsView.setSavedSearches(this.searchStore.saved);
+      this.persistSearchStore();
+    };
+
+    this.searchView.onExportClose = () => this.updateFooter();
+    this.documentView.onFindClose = () => this.updateFooter();
+    this.documentView.onFollowLink = (link) => {
+      this.followLink(link);
+    };
+    this.linkGraph = new LinkGraph(mcp, this.linkResolver);
+    this.documentView.loadBacklinks = (file) =>
+      this.linkGraph.backlinks(file, this.collections);
+    this.documentView.onOpenBacklink = (backlink) => {
+      this.openLinkedDocument(backlink.source, basename(backlink.source), backlink.line);
+    };
+    this.frontmatterIndex = new FrontmatterIndex(mcp, this.linkResolver);
+    this.searchView.loadFrontmatter = (uris) =>
+      this.frontmatterIndex.load(uris, this.collections);
+    this.filesView.loadFrontmatter = (uris) =>
+      this.frontmatterIndex.load(uris, this.collections);
+    this.compareView.loadFrontmatter = (uris) =>
+      this.frontmatterIndex.load(uris, this.collections);
+
     this.filesView.setOnFileOpen((file, title) => {
       this.showDocument(file, title);
     });
 
+    this.jobs.onChange = () => this.scheduleJobsRefresh();
+    this.watcher.onStale = () => this.refreshWatchState();
+    this.watcher.onSettled = (names) => {
+      this.autoUpdate(names);
+    };
+
     // Wire up collection management callbacks
     this.addCollectionView.onComplete = async (path, name, pattern) => {
       try {
@@ -255,242 +383,556 @@ export class App {
   }
 
   private getFooterHelp(): StyledText {
+    if (this.state === "search" && this.searchView.exporting) {
+      return this.footerHelp([
+        { key: "Enter", label: "Export" },
+        { action: "search.cycleExportFormat", label: `Format (${this.searchView.exportFormatLabel})` },
+        { action: "search.cancelExport" },
+      ]);
+    }
     if (this.state === "search") {
-      const mode = this.searchView.modeLabel;
       const scope = this.searchView.scopeLabel;
       const opts = this.searchView.optionsLabel;
-      if (opts) {
-        return t`${bold("^T")}: Mode (${mode})  ${bold("^F")}: Full  ${bold("^E")}: Explain  ${bold("^A")}: All  ${bold("^S")}: MinScore  ${bold("^L")}: Candidates  ${fg(this.theme.muted)(`[${scope}] {${opts}}`)}`;
-      }
-      return t`${bold("^T")}: Mode (${mode})  ${bold("^F")}: Full  ${bold("^E")}: Explain  ${bold("^A")}: All  ${bold("^S")}: MinScore  ${bold("^L")}: Candidates  ${fg(this.theme.muted)(`[${scope}]`)}`;
+      return this.footerHelp(
+        [
+          { action: "search.cycleMode", label: `Mode (${this.searchView.modeLabel})` },
+          { action: "search.toggleFull" },
+          { action: "search.toggleExplain" },
+          { action: "search.toggleAll" },
+          { action: "search.save" },
+          { action: "search.export" },
+          { action: "input.palette" },
+        ],
+        [
+          opts ? `[${scope}] {${opts}}` : `[${scope}]`,
+          this.searchView.markedCount ? `${this.searchView.markedCount} marked` : "",
+        ]
+          .filter(Boolean)
+          .join("  "),
+      );
     }
     if (this.state === "document") {
-      return t`${bold("Esc")}: Back  ${bold("j/k")}: Scroll  ${bold("e")}: Edit  ${bold("p")}: Preview  ${bold("q")}: Quit`;
+      if (this.documentView.finding) {
+        return this.footerHelp([
+          { key: "Enter", label: "Keep highlights" },
+          { action: "find.clear" },
+          { action: "find.toggleRegex" },
+        ]);
+      }
+      return this.footerHelp([
+        { action: "app.back" },
+        { action: "document.find" },
+        { action: ["document.nextMatch", "document.prevMatch"] },
+        { action: "document.outline" },
+        { action: "document.backlinks" },
+        { action: ["document.nextLink", "document.prevLink"] },
+        { action: ["document.back", "document.forward"] },
+        { action: "document.edit" },
+        { action: "app.palette" },
+        { action: "app.help" },
+        { action: "app.quit" },
+      ]);
     }
     if (this.state === "files") {
-      return t`${bold("Esc")}: Back  ${bold("Tab")}: Filter/List  ${bold("Enter")}: Open  ${bold("q")}: Quit`;
+      const marked = this.filesView.markedCount;
+      return this.footerHelp(
+        [
+          { action: "app.back" },
+          { action: "app.switchFocus", label: "Filter/List" },
+          { key: "Enter", label: "Open" },
+          { action: "list.mark" },
+          { action: "input.palette" },
+          { action: "app.quit" },
+        ],
+        marked ? `${marked} marked` : undefined,
+      );
     }
-    if (this.state === "add-collection") {
-      return t`${bold("Tab")}: Complete/Next  ${bold("Enter")}: Confirm  ${bold("Esc")}: Cancel`;
+    if (this.state === "compare") {
+      return this.footerHelp(
+        [
+          { action: "app.back" },
+          { action: ["compare.prevColumn", "compare.nextColumn"] },
+          { key: "Enter", label: "Open" },
+          { action: "app.palette" },
+          { action: "app.help" },
+          { action: "app.quit" },
+        ],
+        "● all three  ◐ two  ○ one mode",
+      );
     }
-    if (this.state === "rename-collection") {
-      return t`${bold("Enter")}: Confirm  ${bold("Esc")}: Cancel`;
+    if (this.state === "jobs") {
+      return this.footerHelp([
+        { action: "app.back" },
+        { action: "jobs.cancel" },
+        { action: "app.palette" },
+        { action: "app.help" },
+        { action: "app.quit" },
+      ]);
     }
-    if (this.state === "delete-collection") {
-      return t`${bold("Enter")}: Confirm  ${bold("Esc")}: Cancel`;
+    if (this.state === "add-collection") {
+      return this.footerHelp([
+        { action: "addCollection.complete" },
+        { key: "Enter", label: "Confirm" },
+        { action: "management.cancel" },
+      ]);
+    }
+    if (this.state === "rename-collection" || this.state === "delete-collection") {
+      return this.footerHelp([
+        { key: "Enter", label: "Confirm" },
+        { action: "management.cancel" },
+      ]);
     }
     if (this.state === "edit-context") {
-      return t`${bold("Enter")}: Save  ${bold("Esc")}: Cancel  ${fg(this.theme.muted)("(empty = delete context)")}`;
+      return this.footerHelp(
+        [{ key: "Enter", label: "Save" }, { action: "context.cancel" }],
+        "(empty = delete context)",
+      );
+    }
+    return this.footerHelp([
+      { action: "app.switchFocus" },
+      { action: "app.search" },
+      { action: "sidebar.files" },
+      { action: "sidebar.add" },
+      { action: "sidebar.update" },
+      { action: "sidebar.embed" },
+      { action: "app.palette" },
+      { action: "app.help" },
+      { action: "app.quit" },
+    ]);
+  }
+
+  /** Footer line of "key: label" pairs; keys come from the keymap, unbound actions are left out. */
+  private footerHelp(items: FooterItem[], suffix?: string): StyledText {
+    const chunks: TextChunk[] = [];
+    for (const item of items) {
+      let keys: string;
+      let label: string;
+      if ("key" in item) {
+        keys = item.key;
+        label = item.label;
+      } else {
+        const ids = Array.isArray(item.action) ? item.action : [item.action];
+        keys = ids.map((id) => this.keymap.keyLabel(id)).filter(Boolean).join("/");
+        label = item.label ?? getAction(ids[0]!).label;
+      }
+      if (!keys) continue;
+      if (chunks.length > 0) chunks.push(plain("  "));
+      chunks.push(bold(keys), plain(`: ${label}`));
     }
-    return t`${bold("Tab")}: Switch  ${bold("/")}: Search  ${bold("f")}: Files  ${bold("x")}: Context  ${bold("c")}: Cleanup  ${bold("a")}: Add  ${bold("d")}: Delete  ${bold("r")}: Rename  ${bold("e")}: Embed  ${bold("u")}: Update  ${bold("q")}: Quit`;
+    if (suffix) chunks.push(plain("  "), fg(this.theme.muted)(suffix));
+    return new StyledText(chunks);
   }
 
+
   private updateFooter(): void {
     this.footerText.content = this.getFooterHelp();
   }
 
   private setupKeyboard(): void {
     this.renderer.keyInput.on("keypress", (key: KeyEvent) => {
-
-      // Search toggles (Ctrl+key) — work regardless of focus
-      if (this.state === "search" && key.ctrl) {
-        if (key.name === "t") {
-          this.searchView.cycleMode();
-          this.updateFooter();
-          key.preventDefault();
-          return;
-        }
-        if (key.name === "f") {
-          this.searchView.toggleFull();
-          this.updateFooter();
-          key.preventDefault();
-          return;
-        }
-        if (key.name === "e") {
-          this.searchView.toggleExplain();
-          this.updateFooter();
-          key.preventDefault();
-          return;
-        }
-        if (key.name === "a") {
-          this.searchView.toggleAll();
-          this.updateFooter();
-          key.preventDefault();
-          return;
-        }
-        if (key.name === "s") {
-          this.searchView.cycleMinScore();
-          this.updateFooter();
-          key.preventDefault();
-          return;
-        }
-        if (key.name === "l") {
-          this.searchView.cycleCandidateLimit();
-          this.updateFooter();
-          key.preventDefault();
-          return;
-        }
-      }
-
-
-
-      // When search input is focused, only intercept escape and tab
-      if (this.state === "search" && this.searchView.input.focused) {
-        if (key.name === "escape") {
-          this.leaveSearch();
-          key.preventDefault();
-          return;
-        }
-        if (key.name === "tab") {
-          this.searchView.focusResults();
-          key.preventDefault();
-          return;
-        }
-        // Let input handle everything else
+      const action = this.keymap.resolve(key, this.activeKeyContexts());
+      if (action === "pending") {
+        key.preventDefault();
         return;
       }
-
-      // When files filter input is focused, only intercept escape and tab
-      if (this.state === "files" && this.filesView.input.focused) {
-        if (key.name === "escape") {
-          this.leaveFiles();
-          key.preventDefault();
-          return;
-        }
-        if (key.name === "tab") {
-          this.filesView.focusList();
-          key.preventDefault();
-          return;
-        }
-        // Let input handle everything else (typing)
+      if (action) {
+        key.preventDefault();
+        this.runAction(action);
         return;
       }
 
-      // When context input is focused, only intercept escape
-      if (this.state === "edit-context" && this.detailView.contextInput.focused) {
-        if (key.name === "escape") {
-          this.detailView.onContextCancel?.();
-          key.preventDefault();
-          return;
-        }
-        // Let input handle everything else (typing + enter)
+      // The help overlay swallows everything else
+      if (this.helpVisible) {
+        key.preventDefault();
         return;
       }
-
-      // Management views: handle escape and tab, let views handle the rest
-      if (
-        this.state === "add-collection" ||
-        this.state === "rename-collection" ||
-        this.state === "delete-collection"
-      ) {
-        if (key.name === "escape") {
-          // If add-collection has completion open, dismiss it first
-          if (this.state === "add-collection" && this.addCollectionView.handleEscape()) {
-            key.preventDefault();
-            return;
-          }
-          this.leaveManagement();
-          key.preventDefault();
-          return;
-        }
-        if (key.name === "tab" && this.state === "add-collection") {
-          this.addCollectionView.handleTab();
-          key.preventDefault();
-          return;
-        }
-        // Fuzzy filter while completion list is open
-        if (this.state === "add-collection" && this.addCollectionView.handleKey(key)) {
-          key.preventDefault();
-          return;
-        }
-        // Let the view's inputs/selects handle enter, typing, etc.
-        return;
+      // Fuzzy filter while completion list is open
+      if (this.state === "add-collection" && this.addCollectionView.handleKey(key)) {
+        key.preventDefault();
       }
+      // Let the focused input/list handle everything else
+    });
+  }
 
-      // Document view shortcuts
-      if (this.state === "document") {
-        if (key.name === "e") {
-          this.openInEditor();
-          key.preventDefault();
-          return;
-        }
-        if (key.name === "p") {
-          this.mainPanel.title = "Preview...";
-          this.openPreview();
-          key.preventDefault();
-          return;
+  /** Key contexts for the current state and focus, highest priority first. */
+  private activeKeyContexts(): KeyContext[] {
+    if (this.helpVisible) return ["help"];
+    if (this.paletteVisible) return ["palette"];
+    const sidebar: KeyContext[] = this.focusArea === "sidebar" ? ["sidebar"] : [];
+
+    switch (this.state) {
+      case "search":
+        // Search toggles work regardless of focus; inputs get all other keys
+        if (this.searchView.saveInput.focused) return ["search", "search.save"];
+        if (this.searchView.exportInput.focused) return ["search", "search.export"];
+        if (this.searchView.input.focused) return ["search", "search.input", "input"];
+        return ["search", "search.results", "list", "global", ...sidebar];
+      case "files":
+        if (this.filesView.input.focused) return ["files.input", "input"];
+        return ["list", "global", ...sidebar];
+      case "edit-context":
+        if (this.detailView.contextInput.focused) return ["context.input"];
+        break;
+      case "compare":
+        return ["compare", "global"];
+      case "jobs":
+        if (this.focusArea === "main") return ["jobs", "global"];
+        break;
+      case "add-collection":
+        return ["management", "add-collection"];
+      case "rename-collection":
+      case "delete-collection":
+        return ["management"];
+      case "document": {
+        if (this.documentView.findInput.focused) return ["document.find"];
+        const contexts: KeyContext[] = [];
+        if (this.documentView.outline.focused || this.documentView.backlinksList.focused) {
+          contexts.push("document.pane");
+        } else if (this.documentView.scroll.focused && this.documentView.focusedLink) {
+          // Enter follows the focused link; otherwise it goes to whatever has focus
+          contexts.push("document.content");
         }
+        return [...contexts, "document", "global", ...sidebar];
       }
+    }
+    return ["global", ...sidebar];
+  }
 
-      if (key.name === "q" && !key.ctrl && !key.meta) {
+  private runAction(id: ActionId): void {
+    switch (id) {
+      case "app.quit":
         this.cleanup();
         this.renderer.destroy();
-        key.preventDefault();
         return;
-      }
-
-      if (key.name === "escape") {
+      case "app.back":
         this.handleEscape();
-        key.preventDefault();
-        return;
-      }
-
-      if (key.name === "tab") {
+        break;
+      case "app.switchFocus":
         this.handleTab();
-        key.preventDefault();
-        return;
-      }
-
-      if (key.name === "/" || key.name === "s") {
+        break;
+      case "app.search":
         this.enterSearch();
-        key.preventDefault();
-        return;
-      }
+        break;
+      case "app.help":
+        this.showHelp();
+        break;
+      case "app.palette":
+      case "input.palette":
+        this.showPalette();
+        break;
+      case "app.jobs":
+        this.enterJobs();
+        break;
 
-      // Collection management shortcuts (only when sidebar focused)
-      if (this.focusArea === "sidebar") {
-        if (key.name === "a") {
-          this.enterAddCollection();
-          key.preventDefault();
-          return;
-        }
-        if (key.name === "d") {
+      case "sidebar.add":
+        this.enterAddCollection();
+        break;
+      case "sidebar.delete":
+        if (this.collectionsView.getSelectedSavedSearch()) {
+          this.deleteSavedSearch();
+        } else {
           this.enterDeleteCollection();
-          key.preventDefault();
-          return;
-        }
-        if (key.name === "r") {
-          this.enterRenameCollection();
-          key.preventDefault();
-          return;
-        }
-        if (key.name === "f") {
-          this.enterFiles();
-          key.preventDefault();
-          return;
-        }
-        if (key.name === "e") {
-          this.runEmbed();
-          key.preventDefault();
-          return;
-        }
-        if (key.name === "u") {
-          this.runUpdate();
-          key.preventDefault();
-          return;
-        }
-        if (key.name === "x") {
-          this.startEditContext();
-          key.preventDefault();
-          return;
-        }
-        if (key.name === "c") {
-          this.runCleanup();
-          key.preventDefault();
-          return;
         }
+        break;
+      case "sidebar.rename":
+        this.enterRenameCollection();
+        break;
+      case "sidebar.files":
+        this.enterFiles();
+        break;
+      case "sidebar.embed":
+        this.runEmbed();
+        break;
+      case "sidebar.update":
+        this.runUpdate();
+        break;
+      case "sidebar.watch":
+        this.toggleWatch();
+        break;
+      case "sidebar.mark":
+        this.collectionsView.toggleMarked();
+        break;
+      case "sidebar.context":
+        this.startEditContext();
+        break;
+      case "sidebar.cleanup":
+        this.runCleanup();
+        break;
+
+      case "search.cycleMode":
+        this.searchView.cycleMode();
+        break;
+      case "search.toggleFull":
+        this.searchView.toggleFull();
+        break;
+      case "search.toggleExplain":
+        this.searchView.toggleExplain();
+        break;
+      case "search.toggleAll":
+        this.searchView.toggleAll();
+        break;
+      case "search.cycleMinScore":
+        this.searchView.cycleMinScore();
+        break;
+      case "search.cycleCandidateLimit":
+        this.searchView.cycleCandidateLimit();
+        break;
+      case "search.save":
+        this.searchView.startSave();
+        break;
+      case "search.leave":
+        this.leaveSearch();
+        break;
+      case "search.focusResults":
+        this.searchView.focusResults();
+        break;
+      case "search.historyPrev":
+        this.searchView.historyPrev();
+        break;
+      case "search.historyNext":
+        this.searchView.historyNext();
+        break;
+      case "search.cancelSave":
+        this.searchView.cancelSave();
+        break;
+      case "search.export":
+        this.searchView.startExport();
+        break;
+      case "search.inspect":
+        this.searchView.toggleInspector();
+        break;
+      case "search.compare":
+        this.enterCompare();
+        break;
+      case "search.cycleExportFormat":
+        this.searchView.cycleExportFormat();
+        break;
+      case "search.cancelExport":
+        this.searchView.cancelExport();
+        break;
+
+      case "compare.nextColumn":
+        this.compareView.nextColumn();
+        break;
+      case "compare.prevColumn":
+        this.compareView.prevColumn();
+        break;
+
+      case "files.leave":
+        this.leaveFiles();
+        break;
+      case "files.focusList":
+        this.filesView.focusList();
+        break;
+
+      case "list.mark":
+        this.activeList()?.toggleMark();
+        break;
+      case "list.markAll":
+        this.activeList()?.toggleMarkAll();
+        break;
+      case "list.openMarked":
+        this.openMarked();
+        break;
+      case "list.copyUris":
+        this.copyMarked("uris");
+        break;
+      case "list.copyPaths":
+        this.copyMarked("paths");
+        break;
+      case "list.copyLinks":
+        this.copyMarked("links");
+        break;
+      case "list.copySnippets":
+        this.copyMarked("snippets");
+        break;
+      case "list.copyBundle":
+        this.copyMarked("bundle");
+        break;
+      case "list.writeBundle":
+        this.writeBundle();
+        break;
+
+      case "context.cancel":
+        this.detailView.onContextCancel?.();
+        break;
+      case "management.cancel":
+        // If add-collection has completion open, dismiss it first
+        if (this.state === "add-collection" && this.addCollectionView.handleEscape()) break;
+        this.leaveManagement();
+        break;
+      case "addCollection.complete":
+        this.addCollectionView.handleTab();
+        break;
+
+      case "document.find":
+        this.documentView.openFind();
+        break;
+      case "document.nextMatch":
+        this.documentView.nextMatch();
+        break;
+      case "document.prevMatch":
+        this.documentView.prevMatch();
+        break;
+      case "document.outline":
+        this.documentView.toggleOutline();
+        break;
+      case "document.backlinks":
+        this.documentView.toggleBacklinks();
+        break;
+      case "document.nextHeading":
+        this.documentView.nextHeading();
+        break;
+      case "document.prevHeading":
+        this.documentView.prevHeading();
+        break;
+      case "document.nextLink":
+        this.documentView.nextLink();
+        break;
+      case "document.prevLink":
+        this.documentView.prevLink();
+        break;
+      case "document.back":
+        this.navigateDocumentHistory(false);
+        break;
+      case "document.forward":
+        this.navigateDocumentHistory(true);
+        break;
+      case "document.edit":
+        this.openInEditor();
+        break;
+      case "document.copyUri":
+        this.copyFromDocument("uri");
+        break;
+      case "document.copyPath":
+        this.copyFromDocument("path");
+        break;
+      case "document.copyLink":
+        this.copyFromDocument("link");
+        break;
+      case "document.copySnippet":
+        this.copyFromDocument("snippet");
+        break;
+      case "document.copyBody":
+        this.copyFromDocument("body");
+        break;
+      case "document.preview":
+        this.mainPanel.title = "Preview...";
+        this.openPreview();
+        break;
+      case "document.followLink":
+        this.documentView.followLink();
+        break;
+      case "document.closePane":
+        this.documentView.hideOutline();
+        this.documentView.hideBacklinks();
+        break;
+      case "find.clear":
+        this.documentView.closeFind(true);
+        break;
+      case "find.toggleRegex":
+        this.documentView.toggleFindRegex();
+        break;
+
+      case "jobs.cancel": {
+        const job = this.jobsView.selected;
+        if (job) this.jobs.cancel(job.id);
+        break;
       }
-    });
+
+      case "palette.run": {
+        const selected = this.palette.selected;
+        if (selected) this.runFromPalette(selected);
+        break;
+      }
+      case "palette.close":
+        this.hidePalette();
+        this.paletteReturnFocus?.focus();
+        break;
+      case "palette.next":
+        this.palette.moveSelection(1);
+        break;
+      case "palette.prev":
+        this.palette.moveSelection(-1);
+        break;
+
+      case "help.close":
+        this.hideHelp();
+        break;
+      case "help.scrollDown":
+        this.helpView.scrollBy(1);
+        break;
+      case "help.scrollUp":
+        this.helpView.scrollBy(-1);
+        break;
+    }
+    this.updateFooter();
+  }
+
+  private showHelp(): void {
+    if (this.helpVisible) return;
+    this.helpView.render();
+    this.root.add(this.helpView.container);
+    this.helpVisible = true;
+  }
+
+  private hideHelp(): void {
+    if (!this.helpVisible) return;
+    this.root.remove(this.helpView.container.id);
+    this.helpVisible = false;
+  }
+
+  private showPalette(): void {
+    if (this.paletteVisible) return;
+    this.paletteReturnFocus = this.renderer.currentFocusedRenderable;
+    this.root.add(this.palette.container);
+    this.palette.open(this.paletteActions());
+    this.paletteVisible = true;
+  }
+
+  private hidePalette(): void {
+    if (!this.paletteVisible) return;
+    this.palette.close();
+    this.root.remove(this.palette.container.id);
+    this.paletteVisible = false;
+  }
+
+  private runFromPalette(id: ActionId): void {
+    this.hidePalette();
+    // Actions that don't switch views keep working on what had focus
+    this.paletteReturnFocus?.focus();
+    this.runAction(id);
+  }
+
+  /** Actions the command palette offers in the current state. */
+  private paletteActions(): ActionId[] {
+    const contexts: KeyContext[] = ["global", "sidebar"];
+    if (this.state === "search") contexts.push("search", "search.results", "list");
+    if (this.state === "files") contexts.push("list");
+    if (this.state === "document") contexts.push("document", "document.content");
+    if (this.state === "compare") contexts.push("compare");
+    if (this.state === "jobs") contexts.push("jobs");
+
+    const collection = this.collectionsView.getSelectedCollection();
+    const available: Partial<Record<ActionId, boolean>> = {
+      "app.back": ["document", "search", "files", "compare", "jobs"].includes(this.state),
+      "app.jobs": this.state !== "jobs",
+      "app.switchFocus": false,
+      "app.palette": false,
+      "sidebar.delete": !!collection || !!this.collectionsView.getSelectedSavedSearch(),
+      "sidebar.rename": !!collection,
+      "sidebar.files": !!collection,
+      "sidebar.context": !!collection,
+      "document.nextMatch": this.documentView.matchCount > 0,
+      "document.prevMatch": this.documentView.matchCount > 0,
+      "document.followLink": !!this.documentView.focusedLink,
+      "document.back": this.documentView.canGoBack,
+      "document.forward": this.documentView.canGoForward,
+      "jobs.cancel": ["queued", "running"].includes(this.jobsView.selected?.status ?? ""),
+    };
+    return ACTIONS.filter((a) => (contexts as string[]).includes(a.context))
+      .map((a) => a.id)
+      .filter((id) => available[id] ?? true);
   }
 
   private handleTab(): void {
@@ -518,7 +960,7 @@ export class App {
     if (this.focusArea === "sidebar") {
       this.focusArea = "main";
       if (this.state === "document") {
-        this.documentView.container.focus();
+        this.documentView.focus();
       }
     } else {
       this.focusArea = "sidebar";
@@ -533,6 +975,10 @@ export class App {
       this.leaveSearch();
     } else if (this.state === "files") {
       this.leaveFiles();
+    } else if (this.state === "compare") {
+      this.leaveCompare();
+    } else if (this.state === "jobs") {
+      this.leaveJobs();
     } else if (this.state === "edit-context") {
       this.detailView.onContextCancel?.();
     }
@@ -540,7 +986,7 @@ export class App {
 
   private showDetail(collection: Collection): void {
     this.switchMainView("detail");
-    this.detailView.show(collection);
+    this.showCollectionInfo(collection);
     this.mainPanel.title = "Collection";
   }
 
@@ -554,12 +1000,37 @@ export class App {
     this.updateFooter();
   }
 
+  private async runSavedSearch(saved: SavedSearch): Promise<void> {
+    this.switchMainView("search");
+    this.searchView.focusInput();
+    this.mainPanel.title = `Search: ${saved.name}`;
+    this.updateFooter();
+    await this.searchView.runSaved(saved);
+    this.updateFooter();
+  }
+
+  private deleteSavedSearch(): void {
+    const saved = this.collectionsView.getSelectedSavedSearch();
+    if (!saved) return;
+    this.searchStore.saved = this.searchStore.saved.filter(
+      (s) => s.name !== saved.name,
+    );
+    this.collectionsView.setSavedSearches(this.searchStore.saved);
+    this.persistSearchStore();
+    this.showAllInfo();
+    this.detailView.showStatus(`Deleted saved search "${saved.name}".`);
+  }
+
+  private persistSearchStore(): void {
+    saveSearchStore(this.searchStore).catch(() => {});
+  }
+
   private leaveSearch(): void {
     this.state = "detail";
     this.switchMainView("detail");
     const col = this.collectionsView.getSelectedCollection();
     if (col) {
-      this.detailView.show(col);
+      this.showCollectionInfo(col);
     }
     this.mainPanel.title = "Collection";
     this.collectionsView.select.focus();
@@ -567,13 +1038,39 @@ export class App {
     this.updateFooter();
   }
 
-  private async showDocument(file: string, title: string): Promise<void> {
+  private enterCompare(): void {
+    const query = this.searchView.input.value.trim();
+    if (!query) {
+      this.searchView.showStatus("Enter a query to compare the search modes.", true);
+      return;
+    }
+    this.switchMainView("compare");
+    this.mainPanel.title = `Compare: ${query}`;
+    this.compareView.focus();
+    this.focusArea = "main";
+    this.updateFooter();
+    this.compareView.run(query, this.searchView.searchOptions);
+  }
+
+  private leaveCompare(): void {
+    this.compareView.cancel();
+    this.switchMainView("search");
+    this.mainPanel.title = "Search";
+    this.searchView.focusResults();
+    this.updateFooter();
+  }
+
+  private async showDocument(
+    file: string,
+    title: string,
+    match?: DocumentMatch,
+  ): Promise<void> {
     this.switchMainView("document");
     this.state = "document";
     this.mainPanel.title = title;
-    this.documentView.container.focus();
+    this.documentView.focus();
     this.updateFooter();
-    await this.documentView.load(file, title);
+    await this.documentView.load(file, title, match);
     // Update panel title with frontmatter title if available
     const fmTitle = this.documentView.getCurrentTitle();
     if (fmTitle && fmTitle !== title) {
@@ -581,6 +1078,32 @@ export class App {
     }
   }
 
+  private async followLink(link: LinkRef): Promise<void> {
+    const from = this.documentView.getCurrentFile();
+    if (!from) return;
+    const uri = await this.linkResolver.resolve(link, from, this.collections);
+    if (!uri) {
+      this.mainPanel.title = `Link not found: ${link.target}`;
+      return;
+    }
+    const title = link.kind === "wiki" ? wikilinkTarget(link.target) : basename(uri);
+    await this.openLinkedDocument(uri, title);
+  }
+
+  private async openLinkedDocument(uri: string, title: string, line?: number): Promise<void> {
+    this.mainPanel.title = title;
+    this.documentView.focus();
+    await this.documentView.navigate(uri, title, line);
+    this.mainPanel.title = this.documentView.getCurrentTitle() ?? title;
+  }
+
+  private async navigateDocumentHistory(forward: boolean): Promise<void> {
+    const moved = forward
+      ? await this.documentView.goForward()
+      : await this.documentView.goBack();
+    if (moved) this.mainPanel.title = this.documentView.getCurrentTitle() ?? "";
+  }
+
   private leaveDocument(): void {
     this.stopPreview();
     if (this.previousState === "search") {
@@ -588,6 +1111,10 @@ export class App {
       this.state = "search";
       this.mainPanel.title = "Search";
       this.searchView.focusResults();
+    } else if (this.previousState === "compare") {
+      this.switchMainView("compare");
+      this.mainPanel.title = `Compare: ${this.searchView.input.value.trim()}`;
+      this.compareView.focus();
     } else if (this.previousState === "files") {
       this.switchMainView("files");
       this.state = "files";
@@ -645,7 +1172,27 @@ export class App {
     this.state = "detail";
     const col = this.collectionsView.getSelectedCollection();
     if (col) {
-      this.detailView.show(col);
+      this.showCollectionInfo(col);
+    }
+    this.mainPanel.title = "Collection";
+    this.collectionsView.select.focus();
+    this.focusArea = "sidebar";
+    this.updateFooter();
+  }
+
+  private enterJobs(): void {
+    this.switchMainView("jobs");
+    this.jobsView.update(this.jobs.jobs);
+    this.jobsView.focus();
+    this.focusArea = "main";
+    this.updateFooter();
+  }
+
+  private leaveJobs(): void {
+    this.switchMainView("detail");
+    const col = this.collectionsView.getSelectedCollection();
+    if (col) {
+      this.showCollectionInfo(col);
     }
     this.mainPanel.title = "Collection";
     this.collectionsView.select.focus();
@@ -658,7 +1205,7 @@ export class App {
     this.state = "detail";
     const col = this.collectionsView.getSelectedCollection();
     if (col) {
-      this.detailView.show(col);
+      this.showCollectionInfo(col);
     }
     this.mainPanel.title = "Collection";
     this.collectionsView.select.focus();
@@ -708,39 +1255,58 @@ export class App {
   }
 
   private async runCleanup(): Promise<void> {
-    const prevTitle = this.mainPanel.title;
-    this.mainPanel.title = "Cleanup...";
-    this.detailView.showStatus("Running cleanup...");
-    try {
-      const output = await this.mcp.cleanup();
-      this.detailView.showStatus(output.trim().replace(/\n/g, "  |  "));
-    } catch (err) {
-      this.detailView.showStatus(`Cleanup error: ${err}`, true);
+    const [job] = await this.startJobs("cleanup", [], "Cleanup");
+    if (job!.status === "done") {
+      this.detailView.showStatus(job!.output.join("  |  ") || "Cleanup done.");
+    } else {
+      this.showJobFailure(job!, "Cleanup");
     }
-    this.mainPanel.title = prevTitle;
   }
 
   private async openInEditor(): Promise<void> {
     const qmdUri = this.documentView.getCurrentFile();
     if (!qmdUri) return;
+    const line = this.documentView.visibleLine + 1;
 
     const filePath = await resolveQmdUri(qmdUri, this.collections);
-    if (!filePath) {
-      // Fallback: try as direct path
-      if (!qmdUri.startsWith("qmd://")) {
-        return this.spawnEditor(qmdUri);
+    try {
+      if (!filePath) {
+        // Fallback: try as direct path
+        if (!qmdUri.startsWith("qmd://")) {
+          await this.spawnEditor(qmdUri, line);
+        }
+        return;
       }
+      await this.spawnEditor(filePath, line);
+    } catch (err) {
+      this.mainPanel.title = `Editor failed: ${err instanceof Error ? err.message : err}`;
       return;
     }
 
-    await this.spawnEditor(filePath);
+    if (this.editor.reindex === false) return;
+    const col = this.collections.find((c) => qmdUri.startsWith(c.uri));
+    if (col && (await this.runUpdate([col.name]))) {
+      // With tmux the user may have moved on while editing
+      if (this.documentView.getCurrentFile() === qmdUri) {
+        await this.documentView.reload();
+      }
+    }
+  }
+
+  /** Open a file at a 1-based line; resolves once the editor has exited. */
+  private async spawnEditor(filePath: string, line = 1): Promise<void> {
+    await this.runEditor(editorCommand(this.editor, filePath, line), dirname(filePath));
   }
 
-  private async spawnEditor(filePath: string): Promise<void> {
-    const editor = process.env.EDITOR || "vi";
+  private async runEditor(argv: string[], cwd: string): Promise<void> {
+    if (usesTmux(this.editor)) {
+      await editInTmux(this.editor, argv, cwd);
+      return;
+    }
     this.renderer.suspend();
     try {
-      const proc = Bun.spawn([editor, filePath], {
+      const proc = Bun.spawn(argv, {
+        cwd,
         stdin: "inherit",
         stdout: "inherit",
         stderr: "inherit",
@@ -751,6 +1317,159 @@ export class App {
     }
   }
 
+  /** Search results or the file list, whichever is shown. */
+  private activeList(): SearchView | FilesView | null {
+    if (this.state === "search") return this.searchView;
+    if (this.state === "files") return this.filesView;
+    return null;
+  }
+
+  /** Absolute paths of the documents that exist on disk. */
+  private async resolvePaths(uris: string[]): Promise<string[]> {
+    const paths = await Promise.all(uris.map((uri) => resolveQmdUri(uri, this.collections)));
+    return paths.filter((p): p is string => p !== null);
+  }
+
+  private async markedBundle(uris: string[]): Promise<string> {
+    return formatBundle(await fetchDocuments(this.mcp, uris));
+  }
+
+  private async openMarked(): Promise<void> {
+    const list = this.activeList();
+    const uris = list?.getTargetFiles() ?? [];
+    if (!list || uris.length === 0) return;
+    const paths = await this.resolvePaths(uris);
+    if (paths.length === 0) {
+      list.showStatus("None of these documents are on disk.", true);
+      return;
+    }
+    try {
+      await this.runEditor(editorFilesCommand(this.editor, paths), dirname(paths[0]!));
+    } catch (err) {
+      list.showStatus(`Editor failed: ${err instanceof Error ? err.message : err}`, true);
+      return;
+    }
+    if (this.editor.reindex === false) return;
+    const names = this.collections
+      .filter((c) => uris.some((uri) => uri.startsWith(c.uri)))
+      .map((c) => c.name);
+    if (names.length > 0) await this.runUpdate(names);
+  }
+
+  private async copyMarked(
+    what: "uris" | "paths" | "links" | "snippets" | "bundle",
+  ): Promise<void> {
+    const list = this.activeList();
+    const items: { file: string; title: string; snippet?: string }[] =
+      list?.getTargetItems() ?? [];
+    if (!list || items.length === 0) return;
+    const uris = items.map((item) => item.file);
+    const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? "" : "s"}`;
+    try {
+      let text: string;
+      let copied: string;
+      switch (what) {
+        case "uris":
+          text = uris.join("\n");
+          copied = count(uris.length, "URI");
+          break;
+        case "paths": {
+          const paths = await this.resolvePaths(uris);
+          if (paths.length === 0) {
+            list.showStatus("None of these documents are on disk.", true);
+            return;
+          }
+          text = paths.join("\n");
+          copied = count(paths.length, "path");
+          break;
+        }
+        case "links":
+          text = items.map((item) => markdownLink(item.title, item.file)).join("\n");
+          copied = count(items.length, "link");
+          break;
+        case "snippets": {
+          const snippets = items
+            .map((item) => snippetText(item.snippet ?? ""))
+            .filter(Boolean);
+          if (snippets.length === 0) {
+            list.showStatus("No snippets to copy; they come with search results.", true);
+            return;
+          }
+          text = snippets.join("\n\n");
+          copied = count(snippets.length, "snippet");
+          break;
+        }
+        case "bundle":
+          list.showStatus(`Bundling ${uris.length} documents...`);
+          text = await this.markedBundle(uris);
+          copied = `a bundle of ${count(uris.length, "document")}`;
+          break;
+      }
+      const via = await copyToClipboard(this.renderer, text);
+      list.showStatus(`Copied ${copied} (${via}).`);
+    } catch (err) {
+      list.showStatus(`Copy failed: ${err instanceof Error ? err.message : err}`, true);
+    }
+  }
+
+  private async copyFromDocument(
+    what: "uri" | "path" | "link" | "snippet" | "body",
+  ): Promise<void> {
+    const file = this.documentView.getCurrentFile();
+    if (!file) return;
+    try {
+      let text: string | null;
+      let copied: string;
+      switch (what) {
+        case "uri":
+          text = file;
+          copied = "URI";
+          break;
+        case "path":
+          text = file.startsWith("qmd://") ? await resolveQmdUri(file, this.collections) : file;
+          if (!text) {
+            this.mainPanel.title = `Not on disk: ${file}`;
+            return;
+          }
+          copied = "path";
+          break;
+        case "link":
+          text = markdownLink(this.documentView.getCurrentTitle() ?? "", file);
+          copied = "link";
+          break;
+        case "snippet": {
+          const snippet = this.documentView.getCurrentSnippet();
+          text = snippet ?? this.documentView.getVisibleParagraph();
+          copied = snippet ? "snippet" : "paragraph";
+          break;
+        }
+        case "body":
+          text = this.documentView.getCurrentContent();
+          copied = "document";
+          break;
+      }
+      if (!text) return;
+      const via = await copyToClipboard(this.renderer, text);
+      this.mainPanel.title = `Copied ${copied} (${via})`;
+    } catch (err) {
+      this.mainPanel.title = `Copy failed: ${err instanceof Error ? err.message : err}`;
+    }
+  }
+
+  private async writeBundle(): Promise<void> {
+    const list = this.activeList();
+    const uris = list?.getTargetFiles() ?? [];
+    if (!list || uris.length === 0) return;
+    const path = join(process.cwd(), bundleFileName());
+    try {
+      list.showStatus(`Bundling ${uris.length} documents...`);
+      await Bun.write(path, await this.markedBundle(uris));
+      list.showStatus(`Wrote ${uris.length} document${uris.length === 1 ? "" : "s"} to ${path}`);
+    } catch (err) {
+      list.showStatus(`Write failed: ${err instanceof Error ? err.message : err}`, true);
+    }
+  }
+
   private async openPreview(): Promise<void> {
     try {
       const qmdUri = this.documentView.getCurrentFile();
@@ -857,28 +1576,72 @@ export class App {
     return this.previewServer.port!;
   }
 
-  private async runUpdate(): Promise<void> {
-    const prevTitle = this.mainPanel.title;
-    this.mainPanel.title = "Updating...";
-    this.detailView.showStatus("Re-indexing all collections...");
-    try {
-      const proc = Bun.spawn(["qmd", "update"], {
-        stdout: "pipe",
-        stderr: "pipe",
-        env: spawnEnv(),
-      });
-      const code = await proc.exited;
-      if (code === 0) {
+  /** Re-index the given collections (default: marked or selected); resolves whether all runs succeeded. */
+  private async runUpdate(
+    targets = this.collectionsView.getTargetCollections().map((c) => c.name),
+  ): Promise<boolean> {
+    const jobs = await this.startJobs(
+      "update",
+      targets,
+      `Re-indexing ${targets.length ? targets.join(", ") : "all collections"}`,
+    );
+    for (const job of jobs) {
+      if (job.status !== "done") continue;
+      const covered = job.args.includes("-c")
+        ? job.collections ?? []
+        : this.collections.map((c) => c.name);
+      for (const name of covered) this.watcher.markIndexed(name, job.startedAt!);
+    }
+    if (jobs.some((j) => j.status === "done")) {
+      try {
         await this.refreshCollections();
-        this.detailView.showStatus("Index updated.");
-      } else {
-        const stderr = await new Response(proc.stderr).text();
-        this.detailView.showStatus(`Update failed: ${stderr.trim()}`, true);
+        // Rebuild the link graph in the background and refresh an open backlinks pane
+        this.linkGraph.rebuild(this.collections).catch(() => {});
+        this.documentView.refreshBacklinks();
+        this.refreshIndexInfo();
+      } catch (err) {
+        this.detailView.showStatus(`Update error: ${err}`, true);
+        return false;
       }
-    } catch (err) {
-      this.detailView.showStatus(`Update error: ${err}`, true);
     }
-    this.mainPanel.title = prevTitle;
+    const failed = jobs.find((j) => j.status !== "done");
+    if (failed) {
+      this.showJobFailure(failed, "Update");
+      return false;
+    }
+    this.detailView.showStatus("Index updated.");
+    return true;
+  }
+
+  /** Changes in watched collections have settled: update (and embed) them in the background. */
+  private async autoUpdate(names: string[]): Promise<void> {
+    // A queued run will pick these changes up anyway
+    const targets = names.filter((name) => !this.jobs.isQueued("update", name));
+    if (targets.length === 0) return;
+    if ((await this.runUpdate(targets)) && this.watcher.embedAfterUpdate) {
+      await this.runEmbed(targets);
+    }
+  }
+
+  private toggleWatch(): void {
+    const col = this.collectionsView.getSelectedCollection();
+    if (!col) {
+      this.detailView.showStatus("Select a collection first (not All)", true);
+      return;
+    }
+    if (this.watcher.isWatching(col.name)) {
+      this.watcher.unwatch(col.name);
+      this.detailView.showStatus(`Stopped watching ${col.name}.`);
+    } else if (this.watcher.watch(col)) {
+      this.detailView.showStatus(`Watching ${col.path} for changes to ${col.pattern}.`);
+    } else {
+      this.detailView.showStatus(`Can't watch ${col.name}: no directory on disk.`, true);
+    }
+    this.refreshWatchState();
+  }
+
+  private refreshWatchState(): void {
+    this.collectionsView.setWatchState(this.watcher.watching, this.watcher.stale);
   }
 
   private stopPreview(): void {
@@ -889,6 +1652,8 @@ export class App {
   }
 
   private cleanup(): void {
+    this.jobs.cancelAll();
+    this.watcher.close();
     this.stopPreview();
     if (this.previewServer) {
       this.previewServer.stop();
@@ -896,22 +1661,153 @@ export class App {
     }
   }
 
-  private async runEmbed(): Promise<void> {
-    const prevTitle = this.mainPanel.title;
-    this.mainPanel.title = "Embedding...";
-    this.detailView.showStatus("Creating embeddings, this may take a while...");
-    try {
-      await embed();
+  private async runEmbed(
+    targets = this.collectionsView.getTargetCollections().map((c) => c.name),
+  ): Promise<void> {
+    const jobs = await this.startJobs(
+      "embed",
+      targets,
+      `Creating embeddings for ${targets.length ? targets.join(", ") : "all collections"}`,
+    );
+    this.indexStatus = null;
+    this.refreshIndexInfo();
+    const failed = jobs.find((j) => j.status !== "done");
+    if (failed) {
+      this.showJobFailure(failed, "Embed");
+    } else {
       this.detailView.showStatus("Embeddings created.");
-    } catch (err) {
-      this.detailView.showStatus(`Error: ${err}`, true);
     }
-    this.mainPanel.title = prevTitle;
+  }
+
+  /**
+   * Queue a maintenance command and report where it is. With target
+   * collections it runs once per collection where qmd supports `-c`, and
+   * falls back to a single run over everything where it doesn't.
+   * Resolves once all jobs have finished.
+   */
+  private async startJobs(
+    kind: JobKind,
+    targets: string[],
+    description: string,
+  ): Promise<Job[]> {
+    const support = await collectionScopeSupport();
+    const scoped = targets.length > 0 && kind !== "cleanup" && support[kind];
+    const fallback = targets.length > 0 && !scoped
+      ? ` (qmd ${kind} can't be limited to a collection, running it for all)`
+      : "";
+    const ahead = this.jobs.queued + (this.jobs.running ? 1 : 0);
+    const jobsKey = this.keymap.keyLabel("app.jobs");
+    const hint = jobsKey ? ` (${jobsKey}: jobs)` : "";
+    this.detailView.showStatus(
+      ahead > 0
+        ? `${description}${fallback}: queued behind ${ahead} job${ahead === 1 ? "" : "s"}${hint}`
+        : `${description}${fallback} in the background...${hint}`,
+    );
+    return Promise.all(
+      scoped
+        ? targets.map((name) => this.jobs.enqueue(kind, ["-c", name], [name]))
+        : [this.jobs.enqueue(kind, [], targets)],
+    );
+  }
+
+  private showCollectionInfo(col: Collection): void {
+    this.detailView.show(col);
+    this.loadIndexInfo(col);
+  }
+
+  private showAllInfo(): void {
+    this.detailView.showAll(this.collections);
+    this.loadIndexInfo(null);
+  }
+
+  /** Reload the index info of whatever the detail view shows. */
+  private refreshIndexInfo(): void {
+    if (this.state !== "detail" && this.state !== "collections") return;
+    if (this.collectionsView.getSelectedSavedSearch()) return;
+    this.loadIndexInfo(this.collectionsView.getSelectedCollection() ?? null);
+  }
+
+  /** Pending embeddings and the last update/embed runs of a collection (null: all). */
+  private async loadIndexInfo(col: Collection | null): Promise<void> {
+    const rows: [string, string][] = [];
+    const lastRun = (kind: JobKind, label: string) => {
+      const job = this.jobs.lastRun(kind, col?.name);
+      if (!job?.startedAt || !job.finishedAt) return;
+      const global = col && !job.args.includes("-c") ? ", all collections" : "";
+      const ago = formatDuration(Date.now() - job.finishedAt);
+      const took = formatDuration(job.finishedAt - job.startedAt);
+      rows.push([label, `${ago} ago (took ${took}${global})`]);
+    };
+    lastRun("update", "Last update:");
+    lastRun("embed", "Last embed:");
+    this.detailView.showIndexInfo(rows);
+
+    try {
+      this.indexStatus ??= this.mcp.status();
+      const status = await this.indexStatus;
+      // The selection may have moved on while qmd status ran
+      if (!this.isShowingInfo(col)) return;
+      const own = col
+        ? status.collections.find((c) => c.name === col.name)?.needsEmbedding
+        : status.needsEmbedding;
+      const pending =
+        own !== undefined
+          ? `${own} pending`
+          : `${status.needsEmbedding} pending (all collections)`;
+      this.detailView.showIndexInfo([["Embeddings:", pending], ...rows]);
+    } catch {
+      this.indexStatus = null;
+    }
+  }
+
+  private isShowingInfo(col: Collection | null): boolean {
+    if (this.state !== "detail" && this.state !== "collections") return false;
+    if (this.collectionsView.getSelectedSavedSearch()) return false;
+    return this.collectionsView.getSelectedCollection()?.name === col?.name;
+  }
+
+  private showJobFailure(job: Job, name: string): void {
+    if (job.status === "cancelled") {
+      this.detailView.showStatus(`${name} cancelled.`);
+      return;
+    }
+    const reason = job.output.at(-1) ?? `qmd exited with code ${job.exitCode}`;
+    this.detailView.showStatus(`${name} failed: ${reason}`, true);
+  }
+
+  /** Coalesce job output into a few redraws per second; keeps ticking while a job runs. */
+  private scheduleJobsRefresh(): void {
+    if (this.jobsRefreshTimer) return;
+    this.jobsRefreshTimer = setTimeout(() => {
+      this.jobsRefreshTimer = null;
+      if (this.state === "jobs") this.jobsView.update(this.jobs.jobs);
+      this.updateJobIndicator();
+      if (this.jobs.running) this.scheduleJobsRefresh();
+    }, JOBS_REFRESH_MS);
+  }
+
+  /** Running job and its progress next to the version in the footer. */
+  private updateJobIndicator(): void {
+    const version = dim(`lazyqmd v${pkg.version} (${this.mcp.transportLabel})`);
+    const job = this.jobs.running;
+    if (!job) {
+      this.versionText.content = t`${version}`;
+      return;
+    }
+    const progress = progressLabel(job);
+    const queued = this.jobs.queued ? ` +${this.jobs.queued} queued` : "";
+    this.versionText.content = t`${fg(this.theme.warning)(`${job.kind}${progress ? ` ${progress}` : "..."}${queued}`)}  ${version}`;
   }
 
   private async refreshCollections(): Promise<void> {
     this.collections = await listCollections();
+    this.indexStatus = null;
+    this.linkResolver.invalidate();
+    this.linkGraph.invalidate();
+    this.frontmatterIndex.invalidate();
     this.collectionsView.update(this.collections);
+    this.watcher.sync(this.collections);
+    this.refreshWatchState();
   }
 
   private switchMainView(target: AppState): void {
@@ -957,22 +1853,38 @@ export class App {
       case "edit-context":
         this.mainPanel.add(this.detailView.container);
         break;
+      case "compare":
+        this.mainPanel.add(this.compareView.container);
+        break;
+      case "jobs":
+        this.mainPanel.add(this.jobsView.container);
+        this.mainPanel.title = "Jobs";
+        break;
     }
   }
 
-  async start(): Promise<void> {
+  async start(launch?: LaunchTarget): Promise<void> {
+    await this.jobs.loadLog();
+
     // Load collections
     try {
       this.collections = await listCollections();
       this.collectionsView.update(this.collections);
+      this.watcher.sync(this.collections);
+      this.refreshWatchState();
 
       // Show "All" summary initially (first item in list)
-      this.detailView.showAll(this.collections);
+      this.showAllInfo();
       this.mainPanel.title = "All Collections";
     } catch (err) {
       this.detailView.clear();
     }
 
+    // Search history and saved searches for this index
+    this.searchStore = await loadSearchStore();
+    this.searchView.setHistory(this.searchStore.history);
+    this.collectionsView.setSavedSearches(this.searchStore.saved);
+
     // Focus sidebar
     this.collectionsView.select.focus();
     this.focusArea = "sidebar";
@@ -983,13 +1895,20 @@ export class App {
       (_index: number, option: { value?: any }) => {
         if (this.state === "detail" || this.state === "collections") {
           if (option.value === "__all__") {
-            this.detailView.showAll(this.collections);
+            this.showAllInfo();
             this.mainPanel.title = "All Collections";
             this.currentContext = null;
+            return;
+          }
+          const saved = this.collectionsView.getSelectedSavedSearch();
+          if (saved) {
+            this.detailView.showSavedSearch(saved);
+            this.mainPanel.title = "Saved Search";
+            this.currentContext = null;
           } else {
             const col = this.collections.find((c) => c.name === option.value);
             if (col) {
-              this.detailView.show(col);
+              this.showCollectionInfo(col);
               this.mainPanel.title = "Collection";
               this.loadContext(col);
             }
@@ -997,6 +1916,57 @@ export class App {
         }
       },
     );
+
+    if (launch) await this.launch(launch);
+  }
+
+  private async launch(target: LaunchTarget): Promise<void> {
+    const collection =
+      target.kind === "collection"
+        ? target.name
+        : target.kind === "search"
+          ? target.collection
+          : undefined;
+    if (collection && !this.collectionsView.selectCollection(collection)) {
+      this.detailView.showStatus(`Collection "${collection}" not found.`, true);
+      return;
+    }
+
+    switch (target.kind) {
+      case "collection": {
+        const col = this.collections.find((c) => c.name === target.name)!;
+        this.showDetail(col);
+        this.loadContext(col);
+        break;
+      }
+      case "search":
+        this.switchMainView("search");
+        this.mainPanel.title = "Search";
+        this.searchView.focusInput();
+        this.updateFooter();
+        await this.searchView.runSaved({
+          query: target.query,
+          mode: target.mode ?? this.searchView.mode,
+          collection: target.collection,
+          options: {},
+        });
+        if (this.searchView.resultCount > 0) this.searchView.focusResults();
+        this.updateFooter();
+        break;
+      case "document": {
+        const title = basename(target.uri);
+        // Back from the document lands on its collection
+        this.collectionsView.selectCollection(target.uri.slice("qmd://".length).split("/")[0]!);
+        this.switchMainView("document");
+        this.mainPanel.title = title;
+        this.documentView.focus();
+        this.updateFooter();
+        const line = target.line === undefined ? undefined : Math.max(0, target.line - 1);
+        await this.documentView.navigate(target.uri, title, line);
+        this.mainPanel.title = this.documentView.getCurrentTitle() ?? title;
+        break;
+      }
+    }
   }
 }
 
@@ -1034,22 +2004,24 @@ function buildPreviewHtml(rawContent: string, filePath: string): string {
   let frontmatterHtml = "";
 
   // Extract and render frontmatter
-  const fmMatch = body.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
-  if (fmMatch) {
-    body = body.slice(fmMatch[0].length);
-    try {
-      const fm = YAML.parse(fmMatch[1]!) as Record<string, unknown>;
-      if (fm.title && typeof fm.title === "string") title = fm.title;
-      const entries = Object.entries(fm).filter(([k]) => k !== "title");
-      if (entries.length > 0) {
-        frontmatterHtml = `<div class="frontmatter"><dl>${entries
-          .map(
-            ([k, v]) =>
-              `<dt>${escapeHtml(k)}</dt><dd>${escapeHtml(String(v))}</dd>`,
-          )
-          .join("")}</dl></div>`;
-      }
-    } catch {}
+  const { data: fm, body: fmBody } = splitFrontmatter(rawContent);
+  if (fm) {
+    body = fmBody;
+    if (fm.title && typeof fm.title === "string") title = fm.title;
+    const entries = Object.entries(fm).filter(([k]) => k !== "title");
+    if (entries.length > 0) {
+      frontmatterHtml = `<div class="frontmatter"><dl>${entries
+        .map(([k, v]) => {
+          const value =
+            k === "tags" || k === "tag"
+              ? frontmatterTags(fm)
+                  .map((tag) => `<span class="tag">#${escapeHtml(tag)}</span>`)
+                  .join(" ")
+              : escapeHtml(formatFrontmatterValue(v));
+          return `<dt>${escapeHtml(k)}</dt><dd>${value}</dd>`;
+        })
+        .join("")}</dl></div>`;
+    }
   }
 
   const htmlBody = marked.parse(body, { async: false }) as string;
@@ -1066,6 +2038,7 @@ function buildPreviewHtml(rawContent: string, filePath: string): string {
   .frontmatter dl { margin: 0; display: grid; grid-template-columns: auto 1fr; gap: 0.25rem 1rem; }
   .frontmatter dt { font-weight: 600; color: #57606a; }
   .frontmatter dd { margin: 0; }
+  .frontmatter .tag { background: #ddf4ff; color: #0969da; border-radius: 1em; padding: 0 0.5em; font-size: 0.9em; }
   img { max-width: 100%; }
   pre { background: #f6f8fa; border-radius: 6px; padding: 1rem; overflow-x: auto; }
   code { background: #f6f8fa; border-radius: 3px; padding: 0.2em 0.4em; font-size: 85%; }
@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import type { QmdMcpClient } from "./mcp-client.ts";
+import { bundleFileName, fetchDocuments, formatBundle } from "./bundle.ts";
+
+const docs = [
+  { file: "qmd://notes/a.md", body: "alpha one\nalpha two\n" },
+  { file: "qmd://notes/b.md", body: "beta one\nbeta two\nbeta three\n" },
+  { file: "qmd://notes/c.md", body: "gamma\n" },
+];
+
+describe("formatBundle", () => {
+  test("every document under its URI", () => {
+    expect(formatBundle(docs)).toBe(
+      "## qmd://notes/a.md\n\nalpha one\nalpha two\n\n" +
+        "## qmd://notes/b.md\n\nbeta one\nbeta two\nbeta three\n\n" +
+        "## qmd://notes/c.md\n\ngamma\n",
+    );
+  });
+
+  test("cuts the document that doesn't fit at a line and leaves the rest out", () => {
+    const first = "## qmd://notes/a.md\n\nalpha one\nalpha two\n";
+    // Room for the first document and one line of the second
+    expect(formatBundle(docs, first.length + 45)).toBe(
+      first +
+        "\n## qmd://notes/b.md\n\nbeta one\n\n[truncated]\n" +
+        "\n<!-- 1 more document left out (byte budget) -->\n",
+    );
+  });
+
+  test("leaves out a document when not even a line fits", () => {
+    expect(formatBundle(docs, 10)).toBe("<!-- 3 more documents left out (byte budget) -->\n");
+  });
+
+  test("counts documents that weren't fetched as left out", () => {
+    const first = "## qmd://notes/a.md\n\nalpha one\nalpha two\n";
+    expect(formatBundle(docs.slice(0, 1), first.length, 3)).toBe(
+      first + "\n<!-- 2 more documents left out (byte budget) -->\n",
+    );
+  });
+});
+
+describe("bundleFileName", () => {
+  test("timestamped", () => {
+    expect(bundleFileName(new Date(2024, 4, 1, 13, 45, 2))).toBe("lazyqmd-bundle-20240501-134502.md");
+  });
+});
+
+describe("fetchDocuments", () => {
+  test("fetches what multi-get skipped or can't list one by one, in the order given", async () => {
+    const calls: string[] = [];
+    const mcp = {
+      multiGetDocuments: async (pattern: string, opts?: { maxBytes?: number }) => {
+        calls.push(`multi-get ${pattern} ${opts?.maxBytes}`);
+        return [
+          { file: "qmd://notes/b.md", body: "b" },
+          // Over multi-get's size limit
+          { file: "qmd://notes/big.md", body: "" },
+        ];
+      },
+      getDocument: async (file: string) => {
+        calls.push(`get ${file}`);
+        return `body of ${file}`;
+      },
+    } as unknown as QmdMcpClient;
+
+    const docs = await fetchDocuments(mcp, ["qmd://notes/big.md", "qmd://notes/a,b.md", "qmd://notes/b.md"], 5000);
+    expect(docs).toEqual([
+      { file: "qmd://notes/big.md", body: "body of qmd://notes/big.md" },
+      { file: "qmd://notes/a,b.md", body: "body of qmd://notes/a,b.md" },
+      { file: "qmd://notes/b.md", body: "b" },
+    ]);
+    expect(calls).toEqual([
+      "multi-get qmd://notes/big.md,qmd://notes/b.md 5000",
+      "get qmd://notes/big.md",
+      "get qmd://notes/a,b.md",
+    ]);
+  });
+
+  test("stops fetching once the budget is spent", async () => {
+    const calls: string[] = [];
+    const uris = Array.from({ length: 25 }, (_, i) => `qmd://notes/${i}.md`);
+    const mcp = {
+      multiGetDocuments: async (pattern: string) => {
+        calls.push(`multi-get ${pattern.split(",").length}`);
+        return pattern.split(",").map((file) => ({ file, body: "x".repeat(100) }));
+      },
+      getDocument: async (file: string) => {
+        calls.push(`get ${file}`);
+        return "";
+      },
+    } as unknown as QmdMcpClient;
+
+    // Each document takes about 120 bytes in the bundle; the 12th crosses the budget
+    const docs = await fetchDocuments(mcp, uris, 1400);
+    expect(docs.map((d) => d.file)).toEqual(uris.slice(0, 12));
+    expect(calls).toEqual(["multi-get 10", "multi-get 10"]);
+  });
+});
@@ -0,0 +1,126 @@
+import type { MultiGetDocument, QmdMcpClient } from "./mcp-client.ts";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function byteLength(text: string): number {
+  return encoder.encode(text).length;
+}
+
+/** The longest run of whole lines of `text` that fits in `maxBytes`. */
+function truncateLines(text: string, maxBytes: number): string {
+  const cut = decoder.decode(encoder.encode(text).subarray(0, maxBytes));
+  const end = cut.lastIndexOf("\n");
+  return end > 0 ? cut.slice(0, end) : "";
+}
+
+function bundlePart(doc: MultiGetDocument): string {
+  return `## ${doc.file}\n\n${doc.body.trim()}\n`;
+}
+
+/**
+ * Several documents as one Markdown file, each under a heading with its URI.
+ * With `maxBytes`, documents are taken in order until the budget is spent:
+ * the one that doesn't fit is cut at a line boundary and the rest are left out,
+ * with a note saying so. `total` counts documents `fetchDocuments` didn't fetch
+ * because the budget was spent before them.
+ */
+export function formatBundle(
+  docs: MultiGetDocument[],
+  maxBytes = Infinity,
+  total = docs.length,
+): string {
+  const parts: string[] = [];
+  let used = 0;
+  let included = 0;
+  for (const doc of docs) {
+    const part = bundlePart(doc);
+    const size = byteLength(part) + (parts.length > 0 ? 1 : 0);
+    if (used + size <= maxBytes) {
+      parts.push(part);
+      used += size;
+      included++;
+      continue;
+    }
+
+    const heading = `## ${doc.file}\n\n`;
+    const note = "\n[truncated]\n";
+    const room = maxBytes - used - byteLength(heading + note) - 1;
+    const body = room > 0 ? truncateLines(doc.body.trim(), room).trimEnd() : "";
+    if (body) {
+      parts.push(`${heading}${body}\n${note}`);
+      included++;
+    }
+    break;
+  }
+  const omitted = total - included;
+  if (omitted > 0) {
+    parts.push(`<!-- ${omitted} more document${omitted === 1 ? "" : "s"} left out (byte budget) -->\n`);
+  }
+  return parts.join("\n");
+}
+
+// multi-get's size limit when the bundle has no budget; larger files are fetched one by one
+const MULTI_GET_MAX_BYTES = 1_000_000;
+// Documents per multi-get while filling a byte budget
+const BUDGET_BATCH = 10;
+
+/** Bodies multi-get returned for `uris`, by lowercased URI; skipped files are missing. */
+async function multiGet(
+  mcp: QmdMcpClient,
+  uris: string[],
+  maxBytes: number,
+): Promise<Map<string, string>> {
+  // A comma in a URI would split the list
+  const listed = uris.filter((uri) => !uri.includes(","));
+  const fetched = new Map<string, string>();
+  if (listed.length === 0) return fetched;
+  const docs = await mcp.multiGetDocuments(listed.join(","), {
+    maxBytes: Number.isFinite(maxBytes) ? maxBytes : MULTI_GET_MAX_BYTES,
+  });
+  for (const doc of docs) {
+    if (doc.body) fetched.set(doc.file.toLowerCase(), doc.body);
+  }
+  return fetched;
+}
+
+/**
+ * Full bodies of the documents for a bundle, in the order given. multi-get
+ * fetches most of them; URIs containing a comma and documents multi-get
+ * skipped are fetched one by one. With `maxBytes`, fetching stops at the
+ * document that no longer fits in the bundle.
+ */
+export async function fetchDocuments(
+  mcp: QmdMcpClient,
+  uris: string[],
+  maxBytes = Infinity,
+): Promise<MultiGetDocument[]> {
+  const batchSize = Number.isFinite(maxBytes) ? BUDGET_BATCH : uris.length;
+  const docs: MultiGetDocument[] = [];
+  let used = 0;
+  for (let i = 0; i < uris.length && used < maxBytes; i += batchSize) {
+    const batch = uris.slice(i, i + batchSize);
+    const fetched = await multiGet(mcp, batch, maxBytes);
+    for (const uri of batch) {
+      const body = fetched.get(uri.toLowerCase()) ?? (await mcp.getDocument(uri));
+      docs.push({ file: uri, body });
+      // Sized as formatBundle lays it out
+      used += byteLength(bundlePart({ file: uri, body })) + (docs.length > 1 ? 1 : 0);
+      if (used >= maxBytes) break;
+    }
+  }
+  return docs;
+}
+
+/** `lazyqmd-bundle-20240501-134502.md` */
+export function bundleFileName(date = new Date()): string {
+  return `lazyqmd-bundle-${timestamp(date)}.md`;
+}
+
+/** `20240501-134502`, for generated file names. */
+export function timestamp(date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const day = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+  const time = `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return `${day}-${time}`;
+}
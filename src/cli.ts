@@ -0,0 +1,455 @@
+import { parseArgs } from "node:util";
+import { join, resolve } from "node:path";
+import { openSync, closeSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { unlink } from "node:fs/promises";
+import { createCliRenderer } from "@opentui/core";
+import pkg from "../package.json";
+import { loadConfig, type Config } from "./config.ts";
+import { loadTheme } from "./theme.ts";
+import { Keymap } from "./keymap.ts";
+import { Picker, type Pick } from "./picker.ts";
+import { detectLocalIndex } from "./local-index.ts";
+import { QmdMcpClient, type SearchOptions, type SearchResult } from "./mcp-client.ts";
+import { listCollections, listFiles, resolveQmdUri } from "./qmd-cli.ts";
+import { FrontmatterIndex, matchesFilters, parseFieldFilters } from "./frontmatter.ts";
+import { LinkResolver } from "./links.ts";
+import { DEFAULT_BUNDLE_BYTES, FORMAT_ALIASES, exportResults } from "./export.ts";
+import type { SearchMode } from "./views/search.ts";
+import type { LaunchTarget } from "./app.ts";
+
+export const USAGE = `lazyqmd v${pkg.version}
+
+Usage:
+  lazyqmd                          Start the TUI
+  lazyqmd -s <query> [-m mode]     Start in search with results loaded
+  lazyqmd -c <collection>          Start on a collection (with -s: search it)
+  lazyqmd <qmd://uri>[:line]       Start with a document open
+  lazyqmd search [options] <query> Search the index
+  lazyqmd open <file> [options]    Print a document (alias: get)
+  lazyqmd pick [options] [query]   Pick a document interactively, print its path
+  lazyqmd ls <collection>          List the files of a collection
+  lazyqmd collections              List collections
+  lazyqmd self-update              Update to the latest release
+  lazyqmd --version                Print version
+
+Search options:
+  -m, --mode <mode>         search (BM25, default), vsearch or query
+  -c, --collection <name>   Limit to one collection
+  -n, --limit <n>           Number of results (default 20)
+      --all                 Return all matches
+      --min-score <score>   Minimum score (0-1)
+  -C, --candidate-limit <n> Rerank candidates (query mode)
+      --full                Include full documents
+      --explain             Include score traces (--json, --format json)
+      --format <format>     Export as md, json (with score traces), csv or
+                            bundle (full documents for an LLM prompt)
+  -o, --output <file>       Write the export to a file instead of stdout
+      --max-bytes <n>       Size budget of a bundle (default ${DEFAULT_BUNDLE_BYTES})
+
+Open options:
+      --path                Print the absolute path instead of the content
+  -l, --max-lines <n>       Print at most n lines
+      --line-numbers        Prefix lines with their number
+
+Pick options:
+  -m, --mode <mode>         Initial search mode
+  -c, --collection <name>   Limit to one collection
+      --uri                 Print the qmd:// URI instead of the path
+      --line                Append the matching line (path:line)
+
+Common options:
+      --json                Machine-readable output
+  -h, --help                Show this help
+`;
+
+/** Subcommands (and help flags) handled here instead of starting the TUI. */
+export const CLI_COMMANDS = new Set([
+  "search",
+  "open",
+  "get",
+  "pick",
+  "ls",
+  "collections",
+  "help",
+  "--help",
+  "-h",
+]);
+
+const MODE_ALIASES: Record<string, SearchMode> = {
+  search: "search",
+  bm25: "search",
+  vsearch: "vsearch",
+  vector: "vsearch",
+  query: "query",
+};
+
+/** Thrown for bad invocations; printed with the usage hint and exit code 2. */
+class UsageError extends Error {}
+
+/** Column-aligned table; the last column isn't padded. */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((h, i) =>
+    Math.max(h.length, ...rows.map((row) => (row[i] ?? "").length)),
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, i) => (i === cells.length - 1 ? cell : cell.padEnd(widths[i]!)))
+      .join("  ")
+      .trimEnd();
+  return [line(headers), ...rows.map(line)].join("\n");
+}
+
+function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+function parseNumber(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n)) throw new UsageError(`${name} must be a number, got "${value}"`);
+  return n;
+}
+
+/**
+ * Connects to qmd for one command. In auto mode that's a running HTTP server
+ * or the CLI: starting `qmd mcp` over stdio would load models for one call.
+ */
+async function connect(config?: Config): Promise<QmdMcpClient> {
+  config ??= await loadConfig();
+  const transport = config.mcpTransport === "auto" ? "http" : config.mcpTransport;
+  const mcp = new QmdMcpClient(config.mcpPort, transport);
+  await mcp.connect();
+  return mcp;
+}
+
+async function searchCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      mode: { type: "string", short: "m", default: "search" },
+      collection: { type: "string", short: "c" },
+      limit: { type: "string", short: "n" },
+      all: { type: "boolean" },
+      "min-score": { type: "string" },
+      "candidate-limit": { type: "string", short: "C" },
+      full: { type: "boolean" },
+      explain: { type: "boolean" },
+      format: { type: "string" },
+      output: { type: "string", short: "o" },
+      "max-bytes": { type: "string" },
+      json: { type: "boolean" },
+    },
+  });
+  const query = positionals.join(" ").trim();
+  if (!query) throw new UsageError("search needs a query");
+  const mode = MODE_ALIASES[values.mode!];
+  if (!mode) throw new UsageError(`unknown search mode "${values.mode}"`);
+  const format = values.format ? FORMAT_ALIASES[values.format] : undefined;
+  if (values.format && !format) throw new UsageError(`unknown export format "${values.format}"`);
+  if (values.output && !format) throw new UsageError("--output needs --format");
+
+  const opts: SearchOptions = {
+    limit: parseNumber(values.limit, "--limit"),
+    collection: values.collection,
+    all: values.all,
+    minScore: parseNumber(values["min-score"], "--min-score"),
+    candidateLimit: parseNumber(values["candidate-limit"], "--candidate-limit"),
+    full: values.full,
+    explain: values.explain || format === "json",
+  };
+
+  // Same query handling as the search view: structured queries go to `query`,
+  // @field:value filters narrow by frontmatter
+  const isStructured = /^(lex|vec|hyde|expand|intent):/.test(query);
+  const { text, filters } = isStructured
+    ? { text: query.replace(/\\n/g, "\n"), filters: [] }
+    : parseFieldFilters(query);
+  if (!text) throw new UsageError("add search terms besides the frontmatter filters");
+
+  const mcp = await connect();
+  try {
+    let results: SearchResult[];
+    switch (isStructured ? "query" : mode) {
+      case "search":
+        results = await mcp.search(text, opts);
+        break;
+      case "vsearch":
+        results = await mcp.vectorSearch(text, opts);
+        break;
+      case "query":
+        results = await mcp.deepSearch(text, opts);
+        break;
+    }
+    if (filters.length > 0) {
+      const collections = await listCollections();
+      const frontmatter = await new FrontmatterIndex(mcp, new LinkResolver()).load(
+        results.map((r) => r.file),
+        collections,
+      );
+      results = results.filter((r) => matchesFilters(frontmatter.get(r.file) ?? null, filters));
+    }
+
+    if (format) {
+      const text = await exportResults(
+        mcp,
+        results,
+        format,
+        { query, mode: isStructured ? "query" : mode, collection: values.collection },
+        parseNumber(values["max-bytes"], "--max-bytes"),
+      );
+      if (values.output) await Bun.write(resolve(values.output), text);
+      else process.stdout.write(text);
+    } else if (values.json) {
+      printJson(results);
+    } else if (results.length === 0) {
+      console.error("No results found.");
+    } else {
+      console.log(
+        formatTable(
+          ["SCORE", "FILE", "TITLE"],
+          results.map((r) => [`${Math.round(r.score * 100)}%`, r.file, r.title]),
+        ),
+      );
+    }
+    return results.length > 0 ? 0 : 1;
+  } finally {
+    await mcp.disconnect();
+  }
+}
+
+async function openCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      path: { type: "boolean" },
+      "max-lines": { type: "string", short: "l" },
+      "line-numbers": { type: "boolean" },
+      json: { type: "boolean" },
+    },
+  });
+  const file = positionals[0];
+  if (!file) throw new UsageError("open needs a qmd:// URI or a file");
+
+  const path = file.startsWith("qmd://")
+    ? await resolveQmdUri(file, await listCollections())
+    : resolve(file);
+  if (values.path) {
+    if (!path) {
+      console.error(`lazyqmd: ${file} has no file on disk`);
+      return 1;
+    }
+    if (values.json) printJson({ file, path });
+    else console.log(path);
+    return 0;
+  }
+
+  const mcp = await connect();
+  try {
+    const content = await mcp.getDocument(file, {
+      maxLines: parseNumber(values["max-lines"], "--max-lines"),
+      lineNumbers: values["line-numbers"],
+    });
+    if (values.json) printJson({ file, path, content });
+    else process.stdout.write(content.endsWith("\n") ? content : `${content}\n`);
+    return 0;
+  } finally {
+    await mcp.disconnect();
+  }
+}
+
+// Set for the picker re-run on the terminal; it writes the pick here instead of stdout
+const PICK_RESULT_ENV = "LAZYQMD_PICK_RESULT";
+
+/**
+ * `nvim $(lazyqmd pick)` captures stdout, and the renderer can only draw
+ * there. Run the picker again with stdin and stdout on the terminal and
+ * pass the pick back through a temp file.
+ */
+async function pickOnTerminal(args: string[]): Promise<number> {
+  let tty: number;
+  try {
+    tty = openSync("/dev/tty", "r+");
+  } catch {
+    console.error("lazyqmd: pick needs a terminal");
+    return 1;
+  }
+  const resultPath = join(tmpdir(), `lazyqmd-pick-${process.pid}`);
+  try {
+    const proc = Bun.spawn([process.execPath, process.argv[1]!, "pick", ...args], {
+      stdin: tty,
+      stdout: tty,
+      stderr: "inherit",
+      env: { ...process.env, [PICK_RESULT_ENV]: resultPath },
+    });
+    const code = await proc.exited;
+    const result = Bun.file(resultPath);
+    if (code === 0 && (await result.exists())) console.log(await result.text());
+    return code;
+  } finally {
+    closeSync(tty);
+    await unlink(resultPath).catch(() => {});
+  }
+}
+
+async function pickCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      mode: { type: "string", short: "m" },
+      collection: { type: "string", short: "c" },
+      uri: { type: "boolean" },
+      line: { type: "boolean" },
+    },
+  });
+  const mode = values.mode === undefined ? undefined : MODE_ALIASES[values.mode];
+  if (values.mode !== undefined && !mode) {
+    throw new UsageError(`unknown search mode "${values.mode}"`);
+  }
+  const resultPath = process.env[PICK_RESULT_ENV];
+  if (!process.stdout.isTTY && !resultPath) return pickOnTerminal(args);
+
+  const config = await loadConfig();
+  const mcp = await connect(config);
+  const renderer = await createCliRenderer({ exitOnCtrlC: false });
+  let pick: Pick | null;
+  try {
+    const picker = new Picker(renderer, mcp, loadTheme(config.theme), new Keymap(config.keys));
+    pick = await picker.run({
+      query: positionals.join(" ").trim() || undefined,
+      mode,
+      collection: values.collection,
+    });
+  } finally {
+    renderer.destroy();
+    await mcp.disconnect();
+  }
+  // Like fzf: 130 when cancelled
+  if (!pick) return 130;
+
+  let output = values.uri ? pick.file : pick.path;
+  if (!output) {
+    console.error(`lazyqmd: ${pick.file} has no file on disk (use --uri)`);
+    return 1;
+  }
+  if (values.line) output += `:${pick.line}`;
+  if (resultPath) await Bun.write(resultPath, output);
+  else console.log(output);
+  return 0;
+}
+
+async function lsCommand(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: { json: { type: "boolean" } },
+  });
+  const collection = positionals[0];
+  if (!collection) throw new UsageError("ls needs a collection name");
+
+  const files = await listFiles(collection);
+  if (values.json) {
+    printJson(files);
+  } else {
+    console.log(formatTable(["SIZE", "DATE", "URI"], files.map((f) => [f.size, f.date, f.uri])));
+  }
+  return 0;
+}
+
+async function collectionsCommand(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: { json: { type: "boolean" } },
+  });
+
+  const collections = await listCollections();
+  if (values.json) {
+    printJson(collections);
+  } else {
+    console.log(
+      formatTable(
+        ["NAME", "FILES", "UPDATED", "PATTERN", "PATH"],
+        collections.map((c) => [c.name, String(c.files), c.updated, c.pattern, c.path]),
+      ),
+    );
+  }
+  return 0;
+}
+
+/**
+ * Start target for the TUI from its arguments (`-s`, `-c`, `-m`, a
+ * `qmd://` URI with optional `:line`). Undefined starts on the overview.
+ */
+export function parseLaunchArgs(args: string[]): LaunchTarget | undefined {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      search: { type: "string", short: "s" },
+      collection: { type: "string", short: "c" },
+      mode: { type: "string", short: "m" },
+    },
+  });
+  const mode = values.mode === undefined ? undefined : MODE_ALIASES[values.mode];
+  if (values.mode !== undefined && !mode) {
+    throw new UsageError(`unknown search mode "${values.mode}"`);
+  }
+
+  const [uri, ...extra] = positionals;
+  if (extra.length > 0) throw new UsageError(`unexpected argument "${extra[0]}"`);
+  if (uri) {
+    if (!uri.startsWith("qmd://")) throw new UsageError(`expected a qmd:// URI, got "${uri}"`);
+    const m = uri.match(/^(.+):(\d+)$/);
+    if (m) return { kind: "document", uri: m[1]!, line: parseInt(m[2]!, 10) };
+    return { kind: "document", uri };
+  }
+  if (values.search !== undefined) {
+    return { kind: "search", query: values.search, mode, collection: values.collection };
+  }
+  if (values.collection !== undefined) return { kind: "collection", name: values.collection };
+  return undefined;
+}
+
+/** Print an error from a command; resolves the exit code (2 for bad usage). */
+export function reportError(err: unknown): number {
+  // parseArgs reports bad options with ERR_PARSE_ARGS_* codes
+  const usage =
+    err instanceof UsageError ||
+    (err instanceof Error && String((err as { code?: unknown }).code ?? "").startsWith("ERR_PARSE_ARGS"));
+  console.error(`lazyqmd: ${err instanceof Error ? err.message : err}`);
+  if (usage) console.error("Run 'lazyqmd --help' for usage.");
+  return usage ? 2 : 1;
+}
+
+/** Run a subcommand (argv after `lazyqmd`); resolves with the process exit code. */
+export async function runCommand(args: string[]): Promise<number> {
+  const [command, ...rest] = args;
+  if (!command || ["help", "--help", "-h"].includes(command) || rest.includes("--help")) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  await detectLocalIndex();
+  try {
+    switch (command) {
+      case "search":
+        return await searchCommand(rest);
+      case "open":
+      case "get":
+        return await openCommand(rest);
+      case "pick":
+        return await pickCommand(rest);
+      case "ls":
+        return await lsCommand(rest);
+      case "collections":
+        return await collectionsCommand(rest);
+      default:
+        throw new UsageError(`unknown command "${command}"`);
+    }
+  } catch (err) {
+    return reportError(err);
+  }
+}
@@ -0,0 +1,32 @@
+import type { CliRenderer } from "@opentui/core";
+
+// Tried in order when the terminal can't take OSC 52; only those whose display is up
+const COPY_COMMANDS: { argv: string[]; available: () => boolean }[] = [
+  { argv: ["wl-copy"], available: () => !!process.env.WAYLAND_DISPLAY },
+  { argv: ["xclip", "-selection", "clipboard"], available: () => !!process.env.DISPLAY },
+  { argv: ["pbcopy"], available: () => process.platform === "darwin" },
+];
+
+async function pipeTo(argv: string[], text: string): Promise<boolean> {
+  try {
+    const proc = Bun.spawn(argv, { stdin: "pipe", stdout: "ignore", stderr: "ignore" });
+    proc.stdin.write(text);
+    proc.stdin.end();
+    return (await proc.exited) === 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Copy text to the clipboard. Uses OSC 52 when the terminal supports it,
+ * which also works over SSH and in tmux, then wl-copy, xclip or pbcopy.
+ * Resolves with what did the copying; throws when nothing could.
+ */
+export async function copyToClipboard(renderer: CliRenderer, text: string): Promise<string> {
+  if (renderer.copyToClipboardOSC52(text)) return "terminal";
+  for (const { argv, available } of COPY_COMMANDS) {
+    if (available() && (await pipeTo(argv, text))) return argv[0]!;
+  }
+  throw new Error("no clipboard available (terminal without OSC 52, no wl-copy, xclip or pbcopy)");
+}
@@ -1,17 +1,27 @@
 import { homedir } from "node:os";
 import { join } from "node:path";
 import { mkdir } from "node:fs/promises";
+import type { KeyBindingOverrides } from "./keymap.ts";
+import type { WatchOptions } from "./watcher.ts";
+import type { EditorOptions } from "./editor.ts";
+
+export type McpTransport = "auto" | "http" | "stdio" | "cli";
 
 export type Config = {
   mcpPort: number;
+  mcpTransport: McpTransport;
   theme?: Record<string, string>;
+  keys?: KeyBindingOverrides;
+  watch?: WatchOptions;
+  editor?: EditorOptions;
 };
 
 const DEFAULT_CONFIG: Config = {
   mcpPort: 8181,
+  mcpTransport: "auto",
 };
 
-const CONFIG_DIR = join(homedir(), ".config", "lazyqmd");
+export const CONFIG_DIR = join(homedir(), ".config", "lazyqmd");
 const CONFIG_PATH = join(CONFIG_DIR, "options.json");
 
 export async function loadConfig(): Promise<Config> {
@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import { editorCommand, editorFilesCommand } from "./editor.ts";
+
+describe("editorCommand", () => {
+  test("known editors open at the line", () => {
+    expect(editorCommand({ command: "nvim" }, "/notes/a b.md", 12)).toEqual(["nvim", "+12", "/notes/a b.md"]);
+    expect(editorCommand({ command: "/usr/bin/code --wait" }, "/a.md", 3)).toEqual([
+      "/usr/bin/code",
+      "--wait",
+      "-g",
+      "/a.md:3",
+    ]);
+    expect(editorCommand({ command: "hx" }, "/a.md", 7)).toEqual(["hx", "/a.md:7"]);
+  });
+
+  test("unknown editors just get the file", () => {
+    expect(editorCommand({ command: "ed -p:" }, "/a.md", 5)).toEqual(["ed", "-p:", "/a.md"]);
+  });
+
+  test("templates replace the whole command line", () => {
+    const options = { command: "nvim", templates: { nvim: "nvim -c {line} -- {file}" } };
+    expect(editorCommand(options, "/my notes/a.md", 4)).toEqual(["nvim", "-c", "4", "--", "/my notes/a.md"]);
+  });
+
+  test("falls back to $VISUAL, then $EDITOR", () => {
+    const { VISUAL, EDITOR } = process.env;
+    try {
+      process.env.VISUAL = "";
+      process.env.EDITOR = "vim";
+      expect(editorCommand({}, "/a.md", 2)).toEqual(["vim", "+2", "/a.md"]);
+      process.env.VISUAL = "micro";
+      expect(editorCommand({}, "/a.md", 2)).toEqual(["micro", "/a.md:2"]);
+    } finally {
+      // Assigning undefined would set the string "undefined"
+      if (VISUAL === undefined) delete process.env.VISUAL;
+      else process.env.VISUAL = VISUAL;
+      if (EDITOR === undefined) delete process.env.EDITOR;
+      else process.env.EDITOR = EDITOR;
+    }
+  });
+});
+
+describe("editorFilesCommand", () => {
+  test("appends the files to the editor command", () => {
+    expect(editorFilesCommand({ command: "code -n" }, ["/a.md", "/b.md"])).toEqual(["code", "-n", "/a.md", "/b.md"]);
+  });
+});
@@ -0,0 +1,125 @@
+import { basename } from "node:path";
+
+export type EditorOptions = {
+  /** Editor command; defaults to $VISUAL, then $EDITOR, then vi. */
+  command?: string;
+  /**
+   * Full command templates by editor name, with {file} and {line}
+   * placeholders: `{ "nvim": "nvim +{line} {file}" }`.
+   */
+  templates?: Record<string, string>;
+  /** Inside tmux, open a split below, beside, or a new window instead of suspending lazyqmd. */
+  tmux?: "split" | "vsplit" | "window";
+  /** Re-index the collection and reload the document after editing (default true). */
+  reindex?: boolean;
+};
+
+// Arguments known editors take to open at a line, appended to the configured command
+const LINE_ARGS: Record<string, string> = {
+  vi: "+{line} {file}",
+  vim: "+{line} {file}",
+  nvim: "+{line} {file}",
+  nano: "+{line} {file}",
+  emacs: "+{line} {file}",
+  emacsclient: "+{line} {file}",
+  kak: "+{line} {file}",
+  code: "-g {file}:{line}",
+  codium: "-g {file}:{line}",
+  cursor: "-g {file}:{line}",
+  hx: "{file}:{line}",
+  helix: "{file}:{line}",
+  micro: "{file}:{line}",
+  subl: "{file}:{line}",
+  zed: "{file}:{line}",
+};
+
+function fill(template: string, file: string, line: number): string[] {
+  // Split first so paths with spaces stay one argument
+  return template
+    .trim()
+    .split(/\s+/)
+    .map((word) => word.replaceAll("{file}", file).replaceAll("{line}", String(line)));
+}
+
+function commandWords(options: EditorOptions): string[] {
+  const command = options.command || process.env.VISUAL || process.env.EDITOR || "vi";
+  return command.trim().split(/\s+/);
+}
+
+/** Command line opening `file` at a 1-based line with the configured editor. */
+export function editorCommand(options: EditorOptions, file: string, line: number): string[] {
+  const words = commandWords(options);
+  const name = basename(words[0]!);
+
+  const template = options.templates?.[name];
+  if (template) return fill(template, file, line);
+  const args = LINE_ARGS[name];
+  return args ? [...words, ...fill(args, file, line)] : [...words, file];
+}
+
+/** Command line opening several files at once; templates don't apply. */
+export function editorFilesCommand(options: EditorOptions, files: string[]): string[] {
+  return [...commandWords(options), ...files];
+}
+
+/** Whether editors open in tmux: configured, and lazyqmd runs inside tmux. */
+export function usesTmux(options: EditorOptions): boolean {
+  return !!options.tmux && !!process.env.TMUX;
+}
+
+function shellQuote(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replaceAll("'", `'\\''`)}'`;
+}
+
+// How often to check that the editor's pane still exists
+const PANE_POLL_MS = 1000;
+
+async function tmux(args: string[]): Promise<string> {
+  const proc = Bun.spawn(["tmux", ...args], { stdout: "pipe", stderr: "pipe" });
+  const [output, errText] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+  ]);
+  const exitCode = await proc.exited;
+  if (exitCode !== 0) {
+    throw new Error(errText.trim() || `tmux exited with code ${exitCode}`);
+  }
+  return output.trim();
+}
+
+async function paneExists(pane: string): Promise<boolean> {
+  try {
+    return (await tmux(["display-message", "-p", "-t", pane, "#{pane_id}"])) === pane;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Run the editor in a new tmux split or window. Resolves once the editor
+ * has exited; the pane signals a `wait-for` channel when it's done. A pane
+ * killed before that never signals, so its disappearance ends the wait too.
+ */
+export async function editInTmux(
+  options: EditorOptions,
+  argv: string[],
+  cwd: string,
+): Promise<void> {
+  const channel = `lazyqmd-edit-${process.pid}-${Date.now()}`;
+  const shell = `${argv.map(shellQuote).join(" ")}; tmux wait-for -S ${channel}`;
+  const target =
+    options.tmux === "window"
+      ? ["new-window"]
+      : ["split-window", options.tmux === "vsplit" ? "-h" : "-v"];
+  const pane = await tmux([...target, "-P", "-F", "#{pane_id}", "-c", cwd, shell]);
+
+  const waiter = Bun.spawn(["tmux", "wait-for", channel], { stdout: "ignore", stderr: "ignore" });
+  const signalled = waiter.exited.then(() => true);
+  while (!(await Promise.race([signalled, Bun.sleep(PANE_POLL_MS).then(() => false)]))) {
+    if (!(await paneExists(pane))) {
+      waiter.kill();
+      break;
+    }
+  }
+  await waiter.exited;
+}
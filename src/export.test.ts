@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import type { QmdMcpClient, SearchResult } from "./mcp-client.ts";
+import { exportFileName, exportResults } from "./export.ts";
+
+// Only the context bundle talks to qmd
+const mcp = {} as QmdMcpClient;
+
+const results: SearchResult[] = [
+  {
+    docid: "#abc123",
+    file: "qmd://notes/deploy guide.md",
+    title: "Deploy [prod]",
+    score: 0.876,
+    context: "Runbooks",
+    snippet: "@@ -3,2 @@ (2 before, 0 after)\nRun `make deploy`,\nthen \"verify\".",
+  },
+  { docid: "#def456", file: "qmd://notes/b.md", title: "B", score: 0.4, context: null, snippet: "" },
+];
+const meta = { query: "deploy", mode: "search", collection: "notes" };
+
+describe("exportResults", () => {
+  test("Markdown report", async () => {
+    expect(await exportResults(mcp, results, "markdown", meta)).toBe(
+      [
+        "# Search: deploy",
+        "",
+        "2 results, search mode in notes",
+        "",
+        "## 1. [Deploy \\[prod\\]](qmd://notes/deploy%20guide.md)",
+        "",
+        "Score 88% · `qmd://notes/deploy guide.md`",
+        "",
+        "*Runbooks*",
+        "",
+        "> Run `make deploy`,",
+        '> then "verify".',
+        "",
+        "## 2. [B](qmd://notes/b.md)",
+        "",
+        "Score 40% · `qmd://notes/b.md`",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("CSV quotes fields with commas, quotes and newlines", async () => {
+    expect(await exportResults(mcp, results, "csv", meta)).toBe(
+      "rank,score,title,file,docid,context,snippet\r\n" +
+        '1,0.8760,Deploy [prod],qmd://notes/deploy guide.md,#abc123,Runbooks,"Run `make deploy`,\nthen ""verify""."\r\n' +
+        "2,0.4000,B,qmd://notes/b.md,#def456,,\r\n",
+    );
+  });
+
+  test("JSON keeps the search and the raw results", async () => {
+    const json = JSON.parse(await exportResults(mcp, results, "json", meta));
+    expect(json).toMatchObject({ ...meta, results });
+    expect(typeof json.exportedAt).toBe("string");
+  });
+});
+
+describe("exportFileName", () => {
+  test("extension follows the format", () => {
+    const date = new Date(2024, 4, 1, 13, 45, 2);
+    expect(exportFileName("bundle", date)).toBe("lazyqmd-results-20240501-134502.bundle.md");
+    expect(exportFileName("csv", date)).toBe("lazyqmd-results-20240501-134502.csv");
+  });
+});
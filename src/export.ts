@@ -0,0 +1,111 @@
+import type { QmdMcpClient, SearchResult } from "./mcp-client.ts";
+import { fetchDocuments, formatBundle, timestamp } from "./bundle.ts";
+import { markdownLink } from "./links.ts";
+import { snippetText } from "./views/markdown.ts";
+
+export type ExportFormat = "markdown" | "json" | "csv" | "bundle";
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string }[] = [
+  { format: "markdown", label: "Markdown", extension: ".md" },
+  { format: "json", label: "JSON", extension: ".json" },
+  { format: "csv", label: "CSV", extension: ".csv" },
+  { format: "bundle", label: "Context bundle", extension: ".bundle.md" },
+];
+
+// Names accepted by `lazyqmd search --format`
+export const FORMAT_ALIASES: Record<string, ExportFormat> = {
+  markdown: "markdown",
+  md: "markdown",
+  json: "json",
+  csv: "csv",
+  bundle: "bundle",
+  context: "bundle",
+};
+
+// Default size of a context bundle, roughly 25k tokens
+export const DEFAULT_BUNDLE_BYTES = 100_000;
+
+/** The search the results came from. */
+export type ExportMeta = {
+  query: string;
+  mode: string;
+  collection?: string;
+};
+
+function scorePct(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
+
+function toMarkdown(results: SearchResult[], meta: ExportMeta): string {
+  const scope = meta.collection ? ` in ${meta.collection}` : "";
+  const lines = [
+    `# Search: ${meta.query}`,
+    "",
+    `${results.length} result${results.length === 1 ? "" : "s"}, ${meta.mode} mode${scope}`,
+  ];
+  for (const [i, r] of results.entries()) {
+    lines.push("", `## ${i + 1}. ${markdownLink(r.title, r.file)}`, "");
+    lines.push(`Score ${scorePct(r.score)} · \`${r.file}\``);
+    if (r.context) lines.push("", `*${r.context}*`);
+    const snippet = snippetText(r.snippet);
+    if (snippet) lines.push("", ...snippet.split("\n").map((line) => `> ${line}`.trimEnd()));
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function toJson(results: SearchResult[], meta: ExportMeta): string {
+  return `${JSON.stringify({ ...meta, exportedAt: new Date().toISOString(), results }, null, 2)}\n`;
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
+
+function toCsv(results: SearchResult[]): string {
+  const rows = [["rank", "score", "title", "file", "docid", "context", "snippet"]];
+  for (const [i, r] of results.entries()) {
+    rows.push([
+      String(i + 1),
+      r.score.toFixed(4),
+      r.title,
+      r.file,
+      r.docid,
+      r.context ?? "",
+      snippetText(r.snippet),
+    ]);
+  }
+  return `${rows.map((row) => row.map(csvField).join(",")).join("\r\n")}\r\n`;
+}
+
+/**
+ * Search results in one of the export formats. The context bundle inlines
+ * the full documents, best first, up to `maxBytes`.
+ */
+export async function exportResults(
+  mcp: QmdMcpClient,
+  results: SearchResult[],
+  format: ExportFormat,
+  meta: ExportMeta,
+  maxBytes = DEFAULT_BUNDLE_BYTES,
+): Promise<string> {
+  switch (format) {
+    case "markdown":
+      return toMarkdown(results, meta);
+    case "json":
+      return toJson(results, meta);
+    case "csv":
+      return toCsv(results);
+    case "bundle": {
+      if (results.length === 0) return "";
+      // Best first, as ranked
+      const docs = await fetchDocuments(mcp, results.map((r) => r.file), maxBytes);
+      return formatBundle(docs, maxBytes, results.length);
+    }
+  }
+}
+
+/** `lazyqmd-results-20240501-134502.csv` */
+export function exportFileName(format: ExportFormat, date = new Date()): string {
+  const { extension } = EXPORT_FORMATS.find((f) => f.format === format)!;
+  return `lazyqmd-results-${timestamp(date)}${extension}`;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import { matchesFilters, parseFieldFilters, splitFrontmatter } from "./frontmatter.ts";
+
+describe("splitFrontmatter", () => {
+  test("parses the YAML block and counts its lines", () => {
+    const { data, body, lines } = splitFrontmatter("---\ntitle: Hi\ntags: [a, b]\n---\n# Body\n");
+    expect(data).toEqual({ title: "Hi", tags: ["a", "b"] });
+    expect(body).toBe("# Body\n");
+    expect(lines).toBe(4);
+  });
+
+  test("no frontmatter", () => {
+    expect(splitFrontmatter("# Body")).toEqual({ data: null, body: "# Body", lines: 0 });
+  });
+
+  test("invalid YAML still splits the block off", () => {
+    const { data, body } = splitFrontmatter("---\n: [\n---\ntext");
+    expect(data).toBeNull();
+    expect(body).toBe("text");
+  });
+});
+
+describe("parseFieldFilters", () => {
+  test("pulls filters out of the query", () => {
+    expect(parseFieldFilters('deploy @tag:runbook -@status:draft @owner:"Jane Doe" steps')).toEqual({
+      text: "deploy steps",
+      filters: [
+        { field: "tag", value: "runbook", negate: false },
+        { field: "status", value: "draft", negate: true },
+        { field: "owner", value: "Jane Doe", negate: false },
+      ],
+    });
+  });
+
+  test("leaves structured prefixes and URIs alone", () => {
+    expect(parseFieldFilters("lex:deploy https://example.com qmd://notes/a.md")).toEqual({
+      text: "lex:deploy https://example.com qmd://notes/a.md",
+      filters: [],
+    });
+  });
+
+  test("keeps colons in ordinary search terms", () => {
+    for (const query of [
+      "std::move semantics",
+      "localhost:8080 refused",
+      "app.ts:42 error",
+      "C:\\Users profile",
+      "note:important",
+      "mail bob@example.com:25",
+    ]) {
+      expect(parseFieldFilters(query)).toEqual({ text: query, filters: [] });
+    }
+  });
+});
+
+describe("matchesFilters", () => {
+  const data = { tags: "runbook, #ops", status: "draft-2", Owner: ["Jane Doe", "Bob"] };
+
+  test("tags, case-insensitive fields and list values", () => {
+    expect(matchesFilters(data, parseFieldFilters("@tag:ops @owner:bob").filters)).toBe(true);
+    expect(matchesFilters(data, parseFieldFilters("@tag:missing").filters)).toBe(false);
+  });
+
+  test("wildcards and negation", () => {
+    expect(matchesFilters(data, parseFieldFilters("@status:draft*").filters)).toBe(true);
+    expect(matchesFilters(data, parseFieldFilters("-@status:draft*").filters)).toBe(false);
+  });
+
+  test("documents without frontmatter only pass negated filters", () => {
+    expect(matchesFilters(null, parseFieldFilters("-@status:draft").filters)).toBe(true);
+    expect(matchesFilters(null, parseFieldFilters("@status:draft").filters)).toBe(false);
+  });
+});
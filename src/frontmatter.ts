@@ -0,0 +1,180 @@
+import YAML from "yaml";
+import type { QmdMcpClient } from "./mcp-client.ts";
+import type { Collection } from "./qmd-cli.ts";
+import type { LinkResolver } from "./links.ts";
+
+export type Frontmatter = Record<string, unknown>;
+
+export type FieldFilter = {
+  field: string;
+  value: string;
+  /** `-@field:value` excludes matching documents. */
+  negate: boolean;
+};
+
+// Documents read at once; the qmd fallback spawns a process per document
+const LOAD_CONCURRENCY = 8;
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+/**
+ * Split YAML frontmatter off a markdown document. `data` is null when the
+ * document has none or it doesn't parse; `lines` is the number of source
+ * lines the frontmatter block takes up.
+ */
+export function splitFrontmatter(content: string): {
+  data: Frontmatter | null;
+  body: string;
+  lines: number;
+} {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) return { data: null, body: content, lines: 0 };
+
+  let data: Frontmatter | null = null;
+  try {
+    const parsed = YAML.parse(match[1]!);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      data = parsed as Frontmatter;
+    }
+  } catch {}
+  return {
+    data,
+    body: content.slice(match[0].length),
+    lines: match[0].split("\n").length - 1,
+  };
+}
+
+function formatDate(date: Date): string {
+  const iso = date.toISOString();
+  return iso.endsWith("T00:00:00.000Z")
+    ? iso.slice(0, 10)
+    : iso.slice(0, 16).replace("T", " ");
+}
+
+/** Display form of a frontmatter value: dates as YYYY-MM-DD, lists comma-separated. */
+export function formatFrontmatterValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return formatDate(value);
+  if (Array.isArray(value)) return value.map(formatFrontmatterValue).join(", ");
+  if (typeof value === "object") {
+    return Object.entries(value)
+      .map(([k, v]) => `${k}: ${formatFrontmatterValue(v)}`)
+      .join(", ");
+  }
+  return String(value);
+}
+
+/** Tags from `tags` or `tag`, given as a list or a comma/space separated string. */
+export function frontmatterTags(data: Frontmatter): string[] {
+  const raw = data.tags ?? data.tag;
+  const values = Array.isArray(raw)
+    ? raw.map(formatFrontmatterValue)
+    : typeof raw === "string"
+      ? raw.split(/[,\s]+/)
+      : [];
+  return values.map((v) => v.trim().replace(/^#/, "")).filter(Boolean);
+}
+
+/**
+ * Pull `@field:value` filters (e.g. `@tag:runbook -@status:draft @owner:"Jane Doe"`)
+ * out of a query. Returns the remaining query text and the filters. The `@`
+ * keeps terms like `std::move` or `localhost:8080` in the query.
+ */
+export function parseFieldFilters(query: string): {
+  text: string;
+  filters: FieldFilter[];
+} {
+  const filters: FieldFilter[] = [];
+  const text = query.replace(
+    /(^|\s)(-?)@([\p{L}_][\p{L}\p{N}_-]*):(?:"([^"]*)"|(\S+))/gu,
+    (_whole, lead: string, neg: string, field: string, quoted?: string, bare?: string) => {
+      const value = quoted ?? bare ?? "";
+      filters.push({ field: field.toLowerCase(), value, negate: neg === "-" });
+      return lead;
+    },
+  );
+  return { text: text.replace(/\s+/g, " ").trim(), filters };
+}
+
+function valueMatches(actual: string, expected: string): boolean {
+  const a = actual.toLowerCase();
+  const e = expected.toLowerCase();
+  // `*` is a wildcard: @status:draft*, @date:2024-05*
+  if (!e.includes("*")) return a === e;
+  const pattern = e.split("*").map((p) => p.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${pattern}$`, "s").test(a);
+}
+
+function fieldMatches(data: Frontmatter, filter: FieldFilter): boolean {
+  if (filter.field === "tag" || filter.field === "tags") {
+    const wanted = filter.value.replace(/^#/, "");
+    return frontmatterTags(data).some((tag) => valueMatches(tag, wanted));
+  }
+  const key = Object.keys(data).find((k) => k.toLowerCase() === filter.field);
+  if (key === undefined) return false;
+  const value = data[key];
+  const values = Array.isArray(value) ? value : [value];
+  return values.some((v) => valueMatches(formatFrontmatterValue(v), filter.value));
+}
+
+/** Whether a document's frontmatter satisfies all filters. No frontmatter only passes negated ones. */
+export function matchesFilters(
+  data: Frontmatter | null,
+  filters: FieldFilter[],
+): boolean {
+  return filters.every(
+    (filter) => (data !== null && fieldMatches(data, filter)) !== filter.negate,
+  );
+}
+
+/** Frontmatter of indexed documents, read from disk (or via qmd) and cached. */
+export class FrontmatterIndex {
+  private cache = new Map<string, Promise<Frontmatter | null>>();
+
+  constructor(
+    private mcp: QmdMcpClient,
+    private resolver: LinkResolver,
+  ) {}
+
+  invalidate(): void {
+    this.cache.clear();
+  }
+
+  async load(
+    uris: string[],
+    collections: Collection[],
+  ): Promise<Map<string, Frontmatter | null>> {
+    const result = new Map<string, Frontmatter | null>();
+    let next = 0;
+    const worker = async () => {
+      while (next < uris.length) {
+        const uri = uris[next++]!;
+        result.set(uri, await this.get(uri, collections));
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(LOAD_CONCURRENCY, uris.length) }, worker));
+    // In the order given
+    return new Map(uris.map((uri) => [uri, result.get(uri) ?? null]));
+  }
+
+  private get(uri: string, collections: Collection[]): Promise<Frontmatter | null> {
+    let data = this.cache.get(uri);
+    if (!data) {
+      data = this.read(uri, collections);
+      this.cache.set(uri, data);
+    }
+    return data;
+  }
+
+  private async read(uri: string, collections: Collection[]): Promise<Frontmatter | null> {
+    try {
+      const path = await this.resolver.resolvePath(uri, collections);
+      const content = path
+        ? await Bun.file(path).text()
+        : await this.mcp.getDocument(uri);
+      return splitFrontmatter(content).data;
+    } catch {
+      return null;
+    }
+  }
+}
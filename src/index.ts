@@ -47,8 +47,24 @@ if (process.argv[2] === "self-update") {
   process.exit(0);
 }
 
+import { CLI_COMMANDS, parseLaunchArgs, reportError, runCommand } from "./cli.ts";
+import type { LaunchTarget } from "./app.ts";
+
+if (CLI_COMMANDS.has(process.argv[2] ?? "")) {
+  process.exit(await runCommand(process.argv.slice(2)));
+}
+
+let launch: LaunchTarget | undefined;
+try {
+  launch = parseLaunchArgs(process.argv.slice(2));
+} catch (err) {
+  process.exit(reportError(err));
+}
+
 import { createCliRenderer } from "@opentui/core";
 import { loadConfig } from "./config.ts";
+import { Keymap } from "./keymap.ts";
+import { CollectionWatcher } from "./watcher.ts";
 import { loadTheme } from "./theme.ts";
 import { QmdMcpClient } from "./mcp-client.ts";
 import { App } from "./app.ts";
@@ -58,7 +74,7 @@ const config = await loadConfig();
 const theme = loadTheme(config.theme);
 await detectLocalIndex();
 
-const mcp = new QmdMcpClient(config.mcpPort);
+const mcp = new QmdMcpClient(config.mcpPort, config.mcpTransport);
 
 let renderer: Awaited<ReturnType<typeof createCliRenderer>> | null = null;
 
@@ -69,8 +85,15 @@ try {
     exitOnCtrlC: true,
   });
 
-  const app = new App(renderer, mcp, theme);
-  await app.start();
+  const app = new App(
+    renderer,
+    mcp,
+    theme,
+    new Keymap(config.keys),
+    new CollectionWatcher(config.watch),
+    config.editor,
+  );
+  await app.start(launch);
 } catch (err) {
   if (renderer) {
     renderer.destroy();
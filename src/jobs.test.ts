@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import { outputWriters, parseProgress, readLines } from "./jobs.ts";
+
+function stream(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+describe("parseProgress", () => {
+  test("percentages and counts", () => {
+    expect(parseProgress("Embedding ████░░░░ 42% 1200/20000 chunks")?.fraction).toBe(0.42);
+    expect(parseProgress("Indexing: 30/120 files")?.fraction).toBe(0.25);
+    expect(parseProgress("12.5% done")?.fraction).toBe(0.125);
+  });
+
+  test("ignores numbers that only look like progress", () => {
+    expect(parseProgress("chunk 12/31/2024")).toBeNull();
+    expect(parseProgress("see notes/2024/05 for details")).toBeNull();
+    expect(parseProgress("12 of 40 collections")).toBeNull();
+    expect(parseProgress("ratio 250%")).toBeNull();
+    expect(parseProgress("Indexed 5/3 files")).toBeNull();
+  });
+});
+
+describe("readLines", () => {
+  test("a bare \\r marks the next line as an overwrite", async () => {
+    const lines: [string, boolean][] = [];
+    await readLines(stream("start\n10%\r", "20%\r\n", "done\r\nlast"), (line, overwrite) =>
+      lines.push([line, overwrite]),
+    );
+    expect(lines).toEqual([
+      ["start", false],
+      ["10%", false],
+      ["20%", true],
+      ["done", false],
+      ["last", false],
+    ]);
+  });
+});
+
+describe("outputWriters", () => {
+  test("overwrites the last line of the same stream only", () => {
+    const output: string[] = [];
+    const [stdout, stderr] = outputWriters(output, 2);
+    stdout!("10%", false);
+    stderr!("warning", false);
+    stdout!("20%", true);
+    expect(output).toEqual(["20%", "warning"]);
+  });
+
+  test("follows its line when old lines are dropped", () => {
+    const output: string[] = [];
+    const [stdout, stderr] = outputWriters(output, 2, 3);
+    stdout!("10%", false);
+    stderr!("a", false);
+    stderr!("b", false);
+    stderr!("c", false);
+    // "10%" is gone; the update becomes a new line
+    stdout!("20%", true);
+    expect(output).toEqual(["b", "c", "20%"]);
+    stderr!("d", false);
+    stdout!("30%", true);
+    expect(output).toEqual(["c", "30%", "d"]);
+  });
+});
@@ -0,0 +1,334 @@
+import { join } from "node:path";
+import { mkdir } from "node:fs/promises";
+import type { Subprocess } from "bun";
+import { CONFIG_DIR } from "./config.ts";
+import { spawnEnv, localConfigDir } from "./local-index.ts";
+
+export type JobKind = "update" | "embed" | "cleanup";
+
+export type JobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export type JobProgress = {
+  /** 0..1, null when the line only says something is happening. */
+  fraction: number | null;
+  /** The output line the progress was parsed from. */
+  text: string;
+};
+
+/** A qmd maintenance command, queued, running or finished. */
+export type Job = {
+  id: number;
+  kind: JobKind;
+  /** Extra arguments after the qmd subcommand. */
+  args: string[];
+  /**
+   * Collections the run was asked for; empty (or missing in old logs) means
+   * all. A global fallback run still records the collections it was started for.
+   */
+  collections?: string[];
+  status: JobStatus;
+  /** stdout and stderr lines, ANSI codes stripped. Finished jobs in the log keep only the tail. */
+  output: string[];
+  progress: JobProgress | null;
+  exitCode: number | null;
+  queuedAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  /** Time of the last output line, to tell a slow job from a stuck one. */
+  lastOutputAt: number | null;
+};
+
+const LOG_PATH = join(CONFIG_DIR, "jobs.json");
+const MAX_LOG = 50;
+const LOG_TAIL_LINES = 20;
+const MAX_OUTPUT_LINES = 2000;
+
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]|\x1b\][^\x07]*\x07/g;
+
+// qmd's progress lines show "42%" and/or "1200/20000" as tokens of their own,
+// after a label or progress bar; "12/31/2024" or "v1.2%" don't count
+const PERCENT_TOKEN = /(?:^|\s)(\d{1,3}(?:\.\d+)?)%(?=\s|$)/;
+const COUNT_TOKEN = /(?:^|\s)(\d+)\/(\d+)(?=\s|$)/;
+
+/** Command line of a job, for display, noting what a global fallback run was started for. */
+export function jobCommand(job: Job): string {
+  const command = ["qmd", job.kind, ...job.args].join(" ");
+  const scope = job.collections ?? [];
+  return scope.length > 0 && !job.args.includes("-c")
+    ? `${command} (for ${scope.join(", ")})`
+    : command;
+}
+
+/**
+ * Progress from a line of qmd output: a percentage ("42%", "42.5%") or a
+ * count ("1200/20000"). Returns null for other lines.
+ */
+export function parseProgress(line: string): JobProgress | null {
+  const percent = line.match(PERCENT_TOKEN);
+  if (percent) {
+    const value = parseFloat(percent[1]!);
+    if (value <= 100) return { fraction: value / 100, text: line };
+  }
+  const count = line.match(COUNT_TOKEN);
+  if (count) {
+    const current = parseInt(count[1]!, 10);
+    const total = parseInt(count[2]!, 10);
+    if (total > 0 && current <= total) return { fraction: current / total, text: line };
+  }
+  return null;
+}
+
+/**
+ * Line writers for the streams of one job, appending to `output` and keeping
+ * its newest `maxLines`. A line flagged `overwrite` replaces the last line of
+ * the same stream, unless that one has been dropped already.
+ */
+export function outputWriters(
+  output: string[],
+  streams: number,
+  maxLines = MAX_OUTPUT_LINES,
+): ((line: string, overwrite: boolean) => void)[] {
+  // Index of each stream's last line in `output`; negative once it's dropped
+  const last = new Array<number>(streams).fill(-1);
+  return last.map((_, stream) => (line, overwrite) => {
+    if (overwrite && last[stream]! >= 0) {
+      output[last[stream]!] = line;
+      return;
+    }
+    output.push(line);
+    last[stream] = output.length - 1;
+    const excess = output.length - maxLines;
+    if (excess > 0) {
+      output.splice(0, excess);
+      for (let i = 0; i < last.length; i++) last[i] = last[i]! - excess;
+    }
+  });
+}
+
+/**
+ * Split a stream into lines. A line ended by a bare "\r" is a progress
+ * update that the next line overwrites, as on a terminal.
+ */
+export async function readLines(
+  stream: ReadableStream<Uint8Array>,
+  onLine: (line: string, overwrite: boolean) => void,
+): Promise<void> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let overwrite = false;
+  for await (const chunk of stream) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let m: RegExpExecArray | null;
+    while ((m = /\r\n|\n|\r/.exec(buffer))) {
+      // A trailing "\r" may be the first half of "\r\n"
+      if (m[0] === "\r" && m.index === buffer.length - 1) break;
+      onLine(buffer.slice(0, m.index), overwrite);
+      overwrite = m[0] === "\r";
+      buffer = buffer.slice(m.index + m[0].length);
+    }
+  }
+  buffer += decoder.decode();
+  if (buffer) onLine(buffer.replace(/\r$/, ""), overwrite);
+}
+
+// A function so TypeScript doesn't narrow `status` across awaits
+function isCancelled(job: Job): boolean {
+  return job.status === "cancelled";
+}
+
+// Global and local (.qmd) indexes keep separate logs
+function indexKey(): string {
+  return localConfigDir() ?? "global";
+}
+
+async function readLog(): Promise<Record<string, Job[]>> {
+  const file = Bun.file(LOG_PATH);
+  if (!(await file.exists())) return {};
+  try {
+    return (await file.json()) as Record<string, Job[]>;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Runs qmd maintenance commands one at a time in the background. Output
+ * is streamed into the job as it arrives; finished runs are kept in a log
+ * (per index) with their exit codes.
+ */
+export class JobManager {
+  private queue: Job[] = [];
+  private current: { job: Job; proc: Subprocess<"ignore", "pipe", "pipe"> } | null = null;
+  private finished = new Map<number, (job: Job) => void>();
+  private log: Job[] = [];
+  private nextId = 1;
+
+  /** Called whenever a job is queued, produces output or finishes. */
+  onChange: ((job: Job) => void) | null = null;
+
+  /** Load the log of earlier runs for the current index. */
+  async loadLog(): Promise<void> {
+    const all = await readLog();
+    this.log = all[indexKey()] ?? [];
+    this.nextId = Math.max(this.nextId, ...this.log.map((j) => j.id + 1));
+  }
+
+  /** The running job, then queued ones, then the log, newest first. */
+  get jobs(): Job[] {
+    return [
+      ...(this.current ? [this.current.job] : []),
+      ...this.queue,
+      ...[...this.log].reverse(),
+    ];
+  }
+
+  get running(): Job | null {
+    return this.current?.job ?? null;
+  }
+
+  /** Jobs waiting for the running one. */
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  /** Whether a run of `kind` covering the collection is waiting in the queue. */
+  isQueued(kind: JobKind, collection: string): boolean {
+    return this.queue.some(
+      (job) =>
+        job.kind === kind &&
+        (!job.args.includes("-c") || job.collections?.includes(collection)),
+    );
+  }
+
+  /** The latest successful run of a command that covered a collection (or all of them). */
+  lastRun(kind: JobKind, collection?: string): Job | null {
+    for (let i = this.log.length - 1; i >= 0; i--) {
+      const job = this.log[i]!;
+      if (job.kind !== kind || job.status !== "done") continue;
+      // Runs without -c covered every collection, whatever they were started for
+      const scoped = job.args.includes("-c");
+      if (!collection || !scoped || job.collections?.includes(collection)) return job;
+    }
+    return null;
+  }
+
+  /**
+   * Queue `qmd <kind> <args>`. Resolves with the job once it has finished,
+   * failed or been cancelled.
+   */
+  enqueue(kind: JobKind, args: string[] = [], collections: string[] = []): Promise<Job> {
+    const job: Job = {
+      id: this.nextId++,
+      kind,
+      args,
+      collections,
+      status: "queued",
+      output: [],
+      progress: null,
+      exitCode: null,
+      queuedAt: Date.now(),
+      startedAt: null,
+      finishedAt: null,
+      lastOutputAt: null,
+    };
+    const done = new Promise<Job>((resolve) => this.finished.set(job.id, resolve));
+    this.queue.push(job);
+    this.onChange?.(job);
+    this.pump();
+    return done;
+  }
+
+  /** Cancel a queued job, or kill the running one. Returns false if it had already finished. */
+  cancel(id: number): boolean {
+    if (this.current?.job.id === id) {
+      this.current.job.status = "cancelled";
+      this.current.proc.kill();
+      return true;
+    }
+    const index = this.queue.findIndex((j) => j.id === id);
+    if (index < 0) return false;
+    const [job] = this.queue.splice(index, 1);
+    job!.status = "cancelled";
+    this.finish(job!);
+    return true;
+  }
+
+  /** Cancel everything, e.g. on quit. */
+  cancelAll(): void {
+    for (const job of [...this.queue]) this.cancel(job.id);
+    if (this.current) this.cancel(this.current.job.id);
+  }
+
+  private async pump(): Promise<void> {
+    if (this.current) return;
+    const job = this.queue.shift();
+    if (!job) return;
+    await this.execute(job);
+    this.pump();
+  }
+
+  private async execute(job: Job): Promise<void> {
+    job.status = "running";
+    job.startedAt = Date.now();
+    try {
+      const proc = Bun.spawn(["qmd", job.kind, ...job.args], {
+        stdin: "ignore",
+        stdout: "pipe",
+        stderr: "pipe",
+        env: spawnEnv(),
+      });
+      this.current = { job, proc };
+      this.onChange?.(job);
+
+      const [stdout, stderr] = this.lineWriters(job);
+      const reading = Promise.all([
+        readLines(proc.stdout, stdout!),
+        readLines(proc.stderr, stderr!),
+      ]);
+      job.exitCode = await proc.exited;
+      // Don't wait for EOF of a killed process — grandchildren may hold the pipes open
+      if (!isCancelled(job)) {
+        await reading;
+        job.status = job.exitCode === 0 ? "done" : "failed";
+      }
+    } catch (err) {
+      if (!isCancelled(job)) job.status = "failed";
+      job.output.push(String(err));
+    }
+    this.current = null;
+    this.finish(job);
+  }
+
+  /** Writers for the job's stdout and stderr, overwriting a stream's last line after a "\r". */
+  private lineWriters(job: Job): ((line: string, overwrite: boolean) => void)[] {
+    return outputWriters(job.output, 2).map((write) => (raw, overwrite) => {
+      const line = raw.replace(ANSI_PATTERN, "").trimEnd();
+      if (!line) return;
+      write(line, overwrite);
+      job.progress = parseProgress(line) ?? job.progress;
+      job.lastOutputAt = Date.now();
+      this.onChange?.(job);
+    });
+  }
+
+  private finish(job: Job): void {
+    job.finishedAt = Date.now();
+    this.log.push(job);
+    if (this.log.length > MAX_LOG) this.log.splice(0, this.log.length - MAX_LOG);
+    this.saveLog().catch(() => {});
+
+    this.onChange?.(job);
+    this.finished.get(job.id)?.(job);
+    this.finished.delete(job.id);
+  }
+
+  private async saveLog(): Promise<void> {
+    const all = await readLog();
+    all[indexKey()] = this.log.map((job) => ({
+      ...job,
+      output: job.output.slice(-LOG_TAIL_LINES),
+    }));
+    await mkdir(CONFIG_DIR, { recursive: true });
+    await Bun.write(LOG_PATH, JSON.stringify(all, null, 2) + "\n");
+  }
+}
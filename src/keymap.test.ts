@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test";
+import type { KeyEvent } from "@opentui/core";
+import { Keymap, parseBinding } from "./keymap.ts";
+
+function press(name: string, mods: { ctrl?: boolean; shift?: boolean } = {}): KeyEvent {
+  const sequence = name.length === 1 && !mods.ctrl ? name : "";
+  return { name, sequence, ctrl: !!mods.ctrl, shift: !!mods.shift, meta: false, option: false } as KeyEvent;
+}
+
+describe("parseBinding", () => {
+  test("single keys, modifiers and aliases", () => {
+    expect(parseBinding("q")).toEqual(["q"]);
+    expect(parseBinding("ctrl+T")).toEqual(["ctrl+t"]);
+    expect(parseBinding("shift+n")).toEqual(["N"]);
+    expect(parseBinding("Enter")).toEqual(["return"]);
+  });
+
+  test("sequences", () => {
+    expect(parseBinding("gg")).toEqual(["g", "g"]);
+    expect(parseBinding("[[")).toEqual(["[", "["]);
+    expect(parseBinding("ctrl+w v")).toEqual(["ctrl+w", "v"]);
+  });
+});
+
+describe("Keymap.resolve", () => {
+  test("earlier contexts win", () => {
+    const keymap = new Keymap();
+    expect(keymap.resolve(press("escape"), ["search.input", "global"])).toBe("search.leave");
+    expect(keymap.resolve(press("escape"), ["global"])).toBe("app.back");
+  });
+
+  test("multi-key sequences", () => {
+    const keymap = new Keymap();
+    const contexts = ["document", "global"] as const;
+    expect(keymap.resolve(press("]"), [...contexts])).toBe("pending");
+    expect(keymap.pendingLabel).toBe("]");
+    expect(keymap.resolve(press("]"), [...contexts])).toBe("document.nextHeading");
+    expect(keymap.pendingLabel).toBe("");
+  });
+
+  test("a broken sequence starts over with the new key", () => {
+    const keymap = new Keymap();
+    expect(keymap.resolve(press("y"), ["document"])).toBe("pending");
+    expect(keymap.resolve(press("n"), ["document"])).toBe("document.nextMatch");
+  });
+
+  test("overrides rebind and unbind", () => {
+    const keymap = new Keymap({ "app.quit": "ctrl+q", "app.help": null });
+    expect(keymap.resolve(press("q"), ["global"])).toBeNull();
+    expect(keymap.resolve(press("q", { ctrl: true }), ["global"])).toBe("app.quit");
+    expect(keymap.resolve(press("?"), ["global"])).toBeNull();
+    expect(keymap.keyLabel("app.help")).toBe("");
+  });
+});
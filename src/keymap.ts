@@ -0,0 +1,365 @@
+import type { KeyEvent } from "@opentui/core";
+
+/**
+ * Where an action applies. The App decides which contexts are active for
+ * its current state and focus; earlier contexts win on conflicting keys.
+ */
+export type KeyContext =
+  | "global"
+  | "sidebar"
+  | "search"
+  | "search.input"
+  | "search.results"
+  | "search.save"
+  | "search.export"
+  | "files.input"
+  | "list"
+  | "context.input"
+  | "management"
+  | "add-collection"
+  | "document"
+  | "document.content"
+  | "document.pane"
+  | "document.find"
+  | "compare"
+  | "jobs"
+  | "input"
+  | "palette"
+  | "help";
+
+export type Action = {
+  id: string;
+  context: KeyContext;
+  /** Short label for the footer. */
+  label: string;
+  /** Longer text for the help overlay. */
+  description: string;
+  /** Default bindings, see parseBinding() for the notation. */
+  keys: readonly string[];
+};
+
+export const ACTIONS = [
+  { id: "app.quit", context: "global", label: "Quit", description: "Quit lazyqmd", keys: ["q"] },
+  { id: "app.back", context: "global", label: "Back", description: "Leave the current view", keys: ["escape"] },
+  { id: "app.switchFocus", context: "global", label: "Switch", description: "Switch focus (sidebar/main, filter/list)", keys: ["tab"] },
+  { id: "app.search", context: "global", label: "Search", description: "Open search", keys: ["/", "s"] },
+  { id: "app.help", context: "global", label: "Help", description: "Show key bindings", keys: ["?"] },
+  { id: "app.jobs", context: "global", label: "Jobs", description: "Show background jobs", keys: ["J"] },
+  { id: "app.palette", context: "global", label: "Commands", description: "Open the command palette", keys: [":", "ctrl+p"] },
+  { id: "input.palette", context: "input", label: "Commands", description: "Open the command palette", keys: ["ctrl+p"] },
+
+  { id: "sidebar.add", context: "sidebar", label: "Add", description: "Add a collection", keys: ["a"] },
+  { id: "sidebar.delete", context: "sidebar", label: "Delete", description: "Delete the selected collection or saved search", keys: ["d"] },
+  { id: "sidebar.rename", context: "sidebar", label: "Rename", description: "Rename the selected collection", keys: ["r"] },
+  { id: "sidebar.files", context: "sidebar", label: "Files", description: "Browse the collection's files", keys: ["f"] },
+  { id: "sidebar.embed", context: "sidebar", label: "Embed", description: "Generate vector embeddings (selected or marked collections)", keys: ["e"] },
+  { id: "sidebar.update", context: "sidebar", label: "Update", description: "Re-index the selected or marked collections", keys: ["u"] },
+  { id: "sidebar.watch", context: "sidebar", label: "Watch", description: "Watch the collection and re-index it on changes", keys: ["w"] },
+  { id: "sidebar.mark", context: "sidebar", label: "Mark", description: "Mark the collection for update/embed", keys: ["space"] },
+  { id: "sidebar.context", context: "sidebar", label: "Context", description: "Edit the collection's context", keys: ["x"] },
+  { id: "sidebar.cleanup", context: "sidebar", label: "Cleanup", description: "Clean up the index", keys: ["c"] },
+
+  { id: "search.cycleMode", context: "search", label: "Mode", description: "Cycle search mode", keys: ["ctrl+t"] },
+  { id: "search.toggleFull", context: "search", label: "Full", description: "Toggle full document output", keys: ["ctrl+f"] },
+  { id: "search.toggleExplain", context: "search", label: "Explain", description: "Toggle score explanations", keys: ["ctrl+e"] },
+  { id: "search.toggleAll", context: "search", label: "All", description: "Toggle all matches (no result limit)", keys: ["ctrl+a"] },
+  { id: "search.cycleMinScore", context: "search", label: "MinScore", description: "Cycle the min-score filter", keys: ["ctrl+s"] },
+  { id: "search.cycleCandidateLimit", context: "search", label: "Candidates", description: "Cycle the rerank candidate limit", keys: ["ctrl+l"] },
+  { id: "search.save", context: "search", label: "Save", description: "Save the current search", keys: ["ctrl+b"] },
+  { id: "search.export", context: "search", label: "Export", description: "Export the results (or the marked ones) to a file", keys: ["ctrl+o"] },
+  { id: "search.compare", context: "search", label: "Compare", description: "Run the query in all three modes side by side", keys: ["ctrl+k"] },
+  { id: "search.leave", context: "search.input", label: "Back", description: "Leave search", keys: ["escape"] },
+  { id: "search.focusResults", context: "search.input", label: "Results", description: "Focus the results", keys: ["tab"] },
+  { id: "search.historyPrev", context: "search.input", label: "History", description: "Previous query from history", keys: ["up"] },
+  { id: "search.historyNext", context: "search.input", label: "History", description: "Next query from history", keys: ["down"] },
+  { id: "search.inspect", context: "search.results", label: "Inspect", description: "Show the score breakdown of the highlighted result instead of the preview", keys: ["i"] },
+  { id: "search.cancelSave", context: "search.save", label: "Cancel", description: "Cancel saving the search", keys: ["escape"] },
+  { id: "search.cycleExportFormat", context: "search.export", label: "Format", description: "Cycle the export format: Markdown, JSON, CSV, context bundle", keys: ["tab"] },
+  { id: "search.cancelExport", context: "search.export", label: "Cancel", description: "Cancel the export", keys: ["escape"] },
+
+  { id: "files.leave", context: "files.input", label: "Back", description: "Leave the file browser", keys: ["escape"] },
+  { id: "files.focusList", context: "files.input", label: "List", description: "Focus the file list", keys: ["tab"] },
+
+  { id: "list.mark", context: "list", label: "Mark", description: "Mark or unmark the highlighted document", keys: ["space", "v"] },
+  { id: "list.markAll", context: "list", label: "Mark all", description: "Mark all listed documents, or unmark them", keys: ["V"] },
+  { id: "list.openMarked", context: "list", label: "Open all", description: "Open the marked (or highlighted) documents in the editor", keys: ["O"] },
+  { id: "list.copyUris", context: "list", label: "Copy URIs", description: "Copy the qmd:// URIs of the marked (or highlighted) documents", keys: ["yu"] },
+  { id: "list.copyPaths", context: "list", label: "Copy paths", description: "Copy the absolute paths of the marked (or highlighted) documents", keys: ["yp"] },
+  { id: "list.copyLinks", context: "list", label: "Copy links", description: "Copy Markdown links to the marked (or highlighted) documents", keys: ["yl"] },
+  { id: "list.copySnippets", context: "list", label: "Copy snippets", description: "Copy the snippets of the marked (or highlighted) search results", keys: ["ys"] },
+  { id: "list.copyBundle", context: "list", label: "Copy bundle", description: "Copy the marked (or highlighted) documents as one Markdown bundle", keys: ["yb"] },
+  { id: "list.writeBundle", context: "list", label: "Write bundle", description: "Write the marked (or highlighted) documents as one Markdown bundle to a file", keys: ["W"] },
+
+  { id: "context.cancel", context: "context.input", label: "Cancel", description: "Cancel editing the context", keys: ["escape"] },
+  { id: "management.cancel", context: "management", label: "Cancel", description: "Cancel", keys: ["escape"] },
+  { id: "addCollection.complete", context: "add-collection", label: "Complete/Next", description: "Complete the path or move to the next field", keys: ["tab"] },
+
+  { id: "document.find", context: "document", label: "Find", description: "Find in document", keys: ["ctrl+f"] },
+  { id: "document.nextMatch", context: "document", label: "Match", description: "Next match", keys: ["n"] },
+  { id: "document.prevMatch", context: "document", label: "Match", description: "Previous match", keys: ["N"] },
+  { id: "document.outline", context: "document", label: "Outline", description: "Toggle the outline pane", keys: ["o"] },
+  { id: "document.backlinks", context: "document", label: "Backlinks", description: "Toggle the backlinks pane", keys: ["i"] },
+  { id: "document.nextHeading", context: "document", label: "Heading", description: "Next heading", keys: ["]]"] },
+  { id: "document.prevHeading", context: "document", label: "Heading", description: "Previous heading", keys: ["[["] },
+  { id: "document.nextLink", context: "document", label: "Link", description: "Focus the next link", keys: ["l"] },
+  { id: "document.prevLink", context: "document", label: "Link", description: "Focus the previous link", keys: ["L"] },
+  { id: "document.back", context: "document", label: "Back/Fwd", description: "Back to the previous linked document", keys: ["b"] },
+  { id: "document.forward", context: "document", label: "Back/Fwd", description: "Forward to the next linked document", keys: ["B"] },
+  { id: "document.edit", context: "document", label: "Edit", description: "Open in $EDITOR", keys: ["e"] },
+  { id: "document.copyUri", context: "document", label: "Copy URI", description: "Copy the document's qmd:// URI", keys: ["yu"] },
+  { id: "document.copyPath", context: "document", label: "Copy path", description: "Copy the document's absolute path", keys: ["yp"] },
+  { id: "document.copyLink", context: "document", label: "Copy link", description: "Copy a Markdown link to the document", keys: ["yl"] },
+  { id: "document.copySnippet", context: "document", label: "Copy snippet", description: "Copy the search snippet, or the paragraph in view", keys: ["ys"] },
+  { id: "document.copyBody", context: "document", label: "Copy body", description: "Copy the whole document", keys: ["yb"] },
+  { id: "document.preview", context: "document", label: "Preview", description: "Open the live preview in the browser", keys: ["p"] },
+  { id: "document.followLink", context: "document.content", label: "Follow", description: "Follow the focused link", keys: ["return"] },
+  { id: "document.closePane", context: "document.pane", label: "Close", description: "Close the outline/backlinks pane", keys: ["escape"] },
+  { id: "find.clear", context: "document.find", label: "Clear", description: "Close the find bar and clear highlights", keys: ["escape"] },
+  { id: "find.toggleRegex", context: "document.find", label: "Regex", description: "Toggle regex patterns", keys: ["ctrl+r"] },
+
+  { id: "compare.nextColumn", context: "compare", label: "Column", description: "Focus the next mode's column", keys: ["l", "right", "tab"] },
+  { id: "compare.prevColumn", context: "compare", label: "Column", description: "Focus the previous mode's column", keys: ["h", "left", "shift+tab"] },
+
+  { id: "jobs.cancel", context: "jobs", label: "Cancel job", description: "Cancel the selected job", keys: ["x"] },
+
+  { id: "palette.run", context: "palette", label: "Run", description: "Run the highlighted command", keys: ["return"] },
+  { id: "palette.close", context: "palette", label: "Close", description: "Close the command palette", keys: ["escape"] },
+  { id: "palette.next", context: "palette", label: "Next", description: "Highlight the next command", keys: ["down", "ctrl+n"] },
+  { id: "palette.prev", context: "palette", label: "Previous", description: "Highlight the previous command", keys: ["up", "ctrl+p"] },
+
+  { id: "help.close", context: "help", label: "Close", description: "Close help", keys: ["escape", "?", "q"] },
+  { id: "help.scrollDown", context: "help", label: "Scroll", description: "Scroll down", keys: ["j", "down"] },
+  { id: "help.scrollUp", context: "help", label: "Scroll", description: "Scroll up", keys: ["k", "up"] },
+] as const satisfies readonly Action[];
+
+export type ActionId = (typeof ACTIONS)[number]["id"];
+
+export function getAction(id: ActionId): Action {
+  return ACTIONS.find((a) => a.id === id)!;
+}
+
+export const CONTEXT_TITLES: Record<KeyContext, string> = {
+  global: "General",
+  sidebar: "Sidebar",
+  search: "Search",
+  "search.input": "Search input",
+  "search.results": "Search results",
+  "search.save": "Save search",
+  "search.export": "Export results",
+  "files.input": "File filter",
+  list: "Result lists",
+  "context.input": "Context",
+  management: "Collection dialogs",
+  "add-collection": "Add collection",
+  document: "Document",
+  "document.content": "Document",
+  "document.pane": "Outline / backlinks",
+  "document.find": "Find bar",
+  compare: "Compare modes",
+  jobs: "Jobs",
+  input: "Text inputs",
+  palette: "Command palette",
+  help: "Help",
+};
+
+/** Overrides from options.json: a binding, a list of bindings, or null to unbind. */
+export type KeyBindingOverrides = Record<string, string | string[] | null>;
+
+const KEY_NAMES = new Set([
+  "return", "escape", "tab", "space", "backspace", "delete", "insert",
+  "up", "down", "left", "right", "home", "end", "pageup", "pagedown",
+  ...Array.from({ length: 12 }, (_, i) => `f${i + 1}`),
+]);
+
+const KEY_ALIASES: Record<string, string> = {
+  enter: "return",
+  esc: "escape",
+  del: "delete",
+  bs: "backspace",
+  pgup: "pageup",
+  pgdn: "pagedown",
+};
+
+const MODIFIER_ALIASES: Record<string, string> = {
+  c: "ctrl",
+  control: "ctrl",
+  a: "alt",
+  m: "alt",
+  meta: "alt",
+  option: "alt",
+  s: "shift",
+};
+
+const MODIFIER_ORDER = ["ctrl", "alt", "shift"];
+
+/** Canonical form of one key: "x", "N", "ctrl+t", "alt+shift+left", "return". */
+function normalizeStep(step: string): string {
+  if (step.length === 1) return step === " " ? "space" : step;
+
+  const parts = step.split("+");
+  let name = parts.pop() || "+";
+  const mods = new Set(
+    parts.map((m) => MODIFIER_ALIASES[m.toLowerCase()] ?? m.toLowerCase()),
+  );
+  if (name.length > 1) name = KEY_ALIASES[name.toLowerCase()] ?? name.toLowerCase();
+
+  // shift+n is just "N"; with ctrl/alt the letter case doesn't matter
+  if (name.length === 1 && mods.has("shift") && !mods.has("ctrl") && !mods.has("alt")) {
+    return name.toUpperCase();
+  }
+  if (name.length === 1 && (mods.has("ctrl") || mods.has("alt"))) name = name.toLowerCase();
+  return [...MODIFIER_ORDER.filter((m) => mods.has(m)), name].join("+");
+}
+
+/**
+ * Parse a binding into its key sequence. Steps are separated by spaces
+ * ("g g", "ctrl+w v"); a step of plain characters that isn't a key name
+ * is a sequence of single keys ("gg", "[[").
+ */
+export function parseBinding(binding: string): string[] {
+  return binding
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .flatMap((part) => {
+      const lower = part.toLowerCase();
+      if (part.length > 1 && !part.includes("+") && !KEY_NAMES.has(lower) && !KEY_ALIASES[lower]) {
+        return [...part].map(normalizeStep);
+      }
+      return [normalizeStep(part)];
+    });
+}
+
+/** Canonical step for a key press, comparable to parseBinding() output. */
+export function keyStep(key: KeyEvent): string {
+  const alt = key.meta || key.option;
+  const modified = key.ctrl || alt;
+  const printable =
+    key.sequence.length === 1 && key.sequence >= " " && key.sequence !== "\x7f";
+
+  if (!modified && printable) return key.sequence === " " ? "space" : key.sequence;
+  if (!modified && key.name.length === 1) {
+    return key.shift ? key.name.toUpperCase() : key.name;
+  }
+  const mods = [key.ctrl && "ctrl", alt && "alt", key.shift && "shift"].filter(Boolean);
+  return [...mods, key.name || key.sequence].join("+");
+}
+
+const STEP_LABELS: Record<string, string> = {
+  return: "Enter",
+  escape: "Esc",
+  tab: "Tab",
+  space: "Space",
+  backspace: "BS",
+  delete: "Del",
+  up: "Up",
+  down: "Down",
+  left: "Left",
+  right: "Right",
+  pageup: "PgUp",
+  pagedown: "PgDn",
+};
+
+function stepLabel(step: string): string {
+  const parts = step.split("+");
+  const name = parts.pop() || "+";
+  const label = STEP_LABELS[name] ?? (name.length === 1 ? name : name[0]!.toUpperCase() + name.slice(1));
+  if (parts.length === 1 && parts[0] === "ctrl" && name.length === 1) {
+    return `^${name.toUpperCase()}`;
+  }
+  const prefix = parts.map((m) => ({ ctrl: "C-", alt: "M-", shift: "S-" })[m] ?? "").join("");
+  return prefix + label;
+}
+
+/** Display form of a key sequence: "^T", "Esc", "gg", "C-w v". */
+export function sequenceLabel(steps: string[]): string {
+  if (steps.length > 1 && steps.every((s) => s.length === 1)) return steps.join("");
+  return steps.map(stepLabel).join(" ");
+}
+
+function startsWith(sequence: string[], prefix: string[]): boolean {
+  return prefix.every((step, i) => sequence[i] === step);
+}
+
+/** Bindings for every action (defaults plus overrides), and matching of key presses. */
+export class Keymap {
+  private bindings = new Map<ActionId, string[][]>();
+  private pending: string[] = [];
+
+  constructor(overrides: KeyBindingOverrides = {}) {
+    for (const action of ACTIONS) {
+      const override = overrides[action.id];
+      const keys =
+        override === undefined
+          ? action.keys
+          : override === null
+            ? []
+            : Array.isArray(override)
+              ? override
+              : [override];
+      this.bindings.set(
+        action.id,
+        keys.map(parseBinding).filter((steps) => steps.length > 0),
+      );
+    }
+  }
+
+  /** Display labels of all bindings of an action. */
+  keyLabels(id: ActionId): string[] {
+    return (this.bindings.get(id) ?? []).map(sequenceLabel);
+  }
+
+  /** Display label of an action's first binding, "" when unbound. */
+  keyLabel(id: ActionId): string {
+    return this.keyLabels(id)[0] ?? "";
+  }
+
+  /** Keys typed so far of an unfinished sequence, e.g. "g". */
+  get pendingLabel(): string {
+    return this.pending.length > 0 ? sequenceLabel(this.pending) : "";
+  }
+
+  /**
+   * Feed a key press. Returns the action it completes within the active
+   * contexts, "pending" when it starts or continues a multi-key sequence,
+   * or null when nothing is bound to it.
+   */
+  resolve(key: KeyEvent, contexts: KeyContext[]): ActionId | "pending" | null {
+    const step = keyStep(key);
+    if (this.pending.length > 0) {
+      const sequence = [...this.pending, step];
+      const result = this.match(sequence, contexts);
+      if (result !== null) {
+        this.pending = result === "pending" ? sequence : [];
+        return result;
+      }
+      // Broken sequence: start over with this key
+      this.pending = [];
+    }
+    const result = this.match([step], contexts);
+    if (result === "pending") this.pending = [step];
+    return result;
+  }
+
+  reset(): void {
+    this.pending = [];
+  }
+
+  private match(sequence: string[], contexts: KeyContext[]): ActionId | "pending" | null {
+    let prefix = false;
+    for (const context of contexts) {
+      for (const action of ACTIONS) {
+        if (action.context !== context) continue;
+        for (const binding of this.bindings.get(action.id) ?? []) {
+          if (binding.length === sequence.length && startsWith(binding, sequence)) {
+            return action.id;
+          }
+          if (binding.length > sequence.length && startsWith(binding, sequence)) {
+            prefix = true;
+          }
+        }
+      }
+    }
+    return prefix ? "pending" : null;
+  }
+}
@@ -0,0 +1,133 @@
+import type { QmdMcpClient } from "./mcp-client.ts";
+import type { Collection, FileEntry } from "./qmd-cli.ts";
+import { parseLinks, type LinkResolver } from "./links.ts";
+import { fetchDocuments } from "./bundle.ts";
+
+export type Backlink = {
+  /** qmd:// URI of the linking document. */
+  source: string;
+  /** 0-based source line of the link. */
+  line: number;
+  /** The linking line, for display. */
+  text: string;
+};
+
+type LinkedDocument = {
+  uri: string;
+  body: string;
+};
+
+// Documents fetched at once for collections that can't be read from disk
+const MULTI_GET_BATCH = 50;
+// Documents read from disk at once
+const READ_BATCH = 16;
+
+function graphKey(uri: string): string {
+  return uri.toLowerCase();
+}
+
+/**
+ * Which indexed documents link to which. Built lazily from every
+ * collection on first use and cached until invalidated.
+ */
+export class LinkGraph {
+  private graph: Promise<Map<string, Backlink[]>> | null = null;
+
+  constructor(
+    private mcp: QmdMcpClient,
+    private resolver: LinkResolver,
+  ) {}
+
+  invalidate(): void {
+    this.graph = null;
+  }
+
+  /** Drop the cached graph and start building a new one. */
+  async rebuild(collections: Collection[]): Promise<void> {
+    this.graph = null;
+    await this.build(collections);
+  }
+
+  async backlinks(uri: string, collections: Collection[]): Promise<Backlink[]> {
+    const graph = await this.build(collections);
+    return graph.get(graphKey(uri)) ?? [];
+  }
+
+  private build(collections: Collection[]): Promise<Map<string, Backlink[]>> {
+    if (!this.graph) {
+      const graph = this.collect(collections);
+      this.graph = graph;
+      // Don't cache a failed build
+      graph.catch(() => {
+        if (this.graph === graph) this.graph = null;
+      });
+    }
+    return this.graph;
+  }
+
+  private async collect(collections: Collection[]): Promise<Map<string, Backlink[]>> {
+    const graph = new Map<string, Backlink[]>();
+    for (const col of collections) {
+      for await (const doc of this.documents(col, collections)) {
+        const lines = doc.body.split("\n");
+        const seen = new Set<string>();
+        for (const link of parseLinks(doc.body)) {
+          const target = await this.resolver.resolve(link, doc.uri, collections);
+          if (!target) continue;
+          const key = graphKey(target);
+          // Skip self-links and repeated links to the same target on one line
+          if (key === graphKey(doc.uri) || seen.has(`${key}\n${link.line}`)) continue;
+          seen.add(`${key}\n${link.line}`);
+
+          const entries = graph.get(key) ?? [];
+          entries.push({
+            source: doc.uri,
+            line: link.line,
+            text: lines[link.line]!.trim(),
+          });
+          graph.set(key, entries);
+        }
+      }
+    }
+    return graph;
+  }
+
+  /** Indexed documents of a collection, read from its path or fetched from qmd. */
+  private async *documents(
+    col: Collection,
+    collections: Collection[],
+  ): AsyncGenerator<LinkedDocument> {
+    const entries = await this.resolver.listFiles(col.name, collections);
+    const remote: FileEntry[] = [];
+
+    for (let i = 0; i < entries.length; i += READ_BATCH) {
+      const batch = entries.slice(i, i + READ_BATCH);
+      const bodies = await Promise.all(
+        batch.map((entry) => (col.path ? this.readLocal(entry.uri, collections) : null)),
+      );
+      for (const [j, entry] of batch.entries()) {
+        const body = bodies[j];
+        if (body == null) remote.push(entry);
+        else yield { uri: entry.uri, body };
+      }
+    }
+
+    for (let i = 0; i < remote.length; i += MULTI_GET_BATCH) {
+      const batch = remote.slice(i, i + MULTI_GET_BATCH);
+      try {
+        const docs = await fetchDocuments(this.mcp, batch.map((e) => e.uri));
+        for (const doc of docs) yield { uri: doc.file, body: doc.body };
+      } catch {}
+    }
+  }
+
+  private async readLocal(uri: string, collections: Collection[]): Promise<string | null> {
+    const path = await this.resolver.resolvePath(uri, collections);
+    if (!path) return null;
+    try {
+      return await Bun.file(path).text();
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, test } from "bun:test";
+import { markdownLink, parseLinks, wikilinkTarget } from "./links.ts";
+
+describe("parseLinks", () => {
+  test("relative links, qmd:// URIs and wikilinks with their lines", () => {
+    const doc = [
+      "See [other](../other.md) and [web](https://example.com).",
+      "Also qmd://notes/a.md, <qmd://notes/b.md> and [[Page#Intro|alias]].",
+      "[jump](#heading) ![img](pic.png)",
+    ].join("\n");
+    expect(parseLinks(doc)).toEqual([
+      { kind: "markdown", target: "../other.md", line: 0 },
+      { kind: "qmd", target: "qmd://notes/b.md", line: 1 },
+      { kind: "qmd", target: "qmd://notes/a.md", line: 1 },
+      { kind: "wiki", target: "Page#Intro|alias", line: 1 },
+    ]);
+  });
+
+  test("a qmd:// link is found once", () => {
+    expect(parseLinks("[a](qmd://notes/a.md)")).toEqual([
+      { kind: "qmd", target: "qmd://notes/a.md", line: 0 },
+    ]);
+  });
+
+  test("skips code spans and fenced code", () => {
+    const doc = "`[[Nope]]`\n```\n[[InCode]]\n```js\n[[StillCode]]\n```\n[[Yes]]";
+    expect(parseLinks(doc)).toEqual([{ kind: "wiki", target: "Yes", line: 6 }]);
+  });
+});
+
+describe("wikilinkTarget", () => {
+  test("drops the heading and the alias", () => {
+    expect(wikilinkTarget("Page")).toBe("Page");
+    expect(wikilinkTarget(" Page #Heading|Alias")).toBe("Page");
+    expect(wikilinkTarget("Page|Alias")).toBe("Page");
+  });
+});
+
+describe("markdownLink", () => {
+  test("escapes brackets in the title and encodes spaces in the URI", () => {
+    expect(markdownLink("Deploy [prod]", "qmd://notes/deploy guide.md")).toBe(
+      "[Deploy \\[prod\\]](qmd://notes/deploy%20guide.md)",
+    );
+  });
+
+  test("falls back to the URI without a title", () => {
+    expect(markdownLink("", "qmd://notes/a.md")).toBe("[qmd://notes/a.md](qmd://notes/a.md)");
+  });
+});
@@ -0,0 +1,295 @@
+import { dirname, posix, relative, resolve, sep } from "node:path";
+import {
+  listFiles,
+  resolveQmdUri,
+  type Collection,
+  type FileEntry,
+} from "./qmd-cli.ts";
+
+export type LinkKind = "markdown" | "qmd" | "wiki";
+
+export type LinkRef = {
+  kind: LinkKind;
+  /** Link target as written: a relative path, a qmd:// URI or a wikilink name. */
+  target: string;
+};
+
+/** Bare qmd:// URIs in running text. */
+export const QMD_URI_PATTERN = /qmd:\/\/[^\s<>()[\]"'`]+[^\s<>()[\]"'`.,;:!?]/g;
+
+/** Obsidian-style [[Target]], [[Target#Heading]] and [[Target|Alias]]. */
+export const WIKILINK_PATTERN = /\[\[([^\[\]\n]+?)\]\]/g;
+
+/**
+ * Classify the URL of a rendered markdown link. Returns null for links
+ * that can't be opened in the TUI (web URLs, mailto:, in-page anchors).
+ */
+export function classifyLinkUrl(url: string): LinkKind | null {
+  if (url.startsWith("qmd://")) return "qmd";
+  if (/^[a-z][a-z0-9+.-]*:/i.test(url) || url.startsWith("#")) return null;
+  return "markdown";
+}
+
+/** Page name of a wikilink body: "Target#Heading|Alias" → "Target". */
+export function wikilinkTarget(body: string): string {
+  return body.split("|")[0]!.split("#")[0]!.trim();
+}
+
+/** `[Title](qmd://…)`, with brackets in the title escaped. */
+export function markdownLink(title: string, uri: string): string {
+  const text = (title || uri).replace(/[[\]]/g, "\\$&");
+  return `[${text}](${uri.replaceAll(" ", "%20")})`;
+}
+
+/** A link found in a document's markdown source. */
+export type SourceLink = LinkRef & {
+  /** 0-based source line. */
+  line: number;
+};
+
+const INLINE_LINK_PATTERN = /(!?)\[[^\]\n]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'(][^)]*)?\)/g;
+const AUTOLINK_PATTERN = /<(qmd:\/\/[^>\s]+)>/g;
+
+/**
+ * Collect the openable links of a markdown document: inline links to
+ * relative paths or qmd:// URIs, bare qmd:// URIs and [[wikilinks]].
+ * Images, web links, fenced code and inline code spans are skipped.
+ */
+export function parseLinks(content: string): SourceLink[] {
+  const links: SourceLink[] = [];
+  let fence: string | null = null;
+
+  content.split("\n").forEach((raw, line) => {
+    if (fence) {
+      // Closing fences take no info string
+      const close = raw.match(/^ {0,3}(`{3,}|~{3,})[ \t]*\r?$/);
+      if (close && close[1]![0] === fence[0] && close[1]!.length >= fence.length) fence = null;
+      return;
+    }
+    const open = raw.match(/^ {0,3}(`{3,}|~{3,})/);
+    if (open) {
+      fence = open[1]!;
+      return;
+    }
+
+    // Blank out code spans and consumed links so nothing is matched twice
+    let text = raw.replace(/`+[^`]*`+/g, (m) => " ".repeat(m.length));
+    const blank = (m: RegExpMatchArray) => {
+      text = text.slice(0, m.index!) + " ".repeat(m[0].length) + text.slice(m.index! + m[0].length);
+    };
+
+    for (const m of [...text.matchAll(INLINE_LINK_PATTERN)]) {
+      blank(m);
+      if (m[1]) continue;
+      const kind = classifyLinkUrl(m[2]!);
+      if (kind) links.push({ kind, target: m[2]!, line });
+    }
+    for (const m of [...text.matchAll(AUTOLINK_PATTERN)]) {
+      blank(m);
+      links.push({ kind: "qmd", target: m[1]!, line });
+    }
+    for (const m of text.matchAll(QMD_URI_PATTERN)) {
+      links.push({ kind: "qmd", target: m[0], line });
+    }
+    for (const m of text.matchAll(WIKILINK_PATTERN)) {
+      links.push({ kind: "wiki", target: m[1]!, line });
+    }
+  });
+
+  return links;
+}
+
+function stripFragment(target: string): string {
+  return target.replace(/[?#].*$/, "");
+}
+
+/** `qmd://notes/a/b.md` → { collection: "notes", path: "a/b.md" } */
+export function parseQmdUri(uri: string): { collection: string; path: string } | null {
+  const match = uri.match(/^qmd:\/\/([^/]+)\/(.*)$/);
+  if (!match) return null;
+  return { collection: match[1]!, path: match[2]! };
+}
+
+// qmd stores lowercased paths; also tolerate spaces/punctuation it may have normalized
+function pathKey(path: string): string {
+  return path
+    .toLowerCase()
+    .replace(/\.md$/, "")
+    .replace(/[^\p{L}\p{N}/.]+/gu, "-");
+}
+
+/** Path keys of a collection's files, mapped to their URIs. */
+type FileIndex = {
+  byPath: Map<string, string>;
+  /** Every trailing run of path segments: "a/b/c", "b/c" and "c". */
+  bySuffix: Map<string, string>;
+};
+
+function buildFileIndex(entries: FileEntry[]): FileIndex {
+  const byPath = new Map<string, string>();
+  const bySuffix = new Map<string, string>();
+  // The first file listed wins, as with a linear search
+  for (const entry of entries) {
+    const key = pathKey(entry.path);
+    if (!byPath.has(key)) byPath.set(key, entry.uri);
+    const segments = key.split("/");
+    for (let i = 0; i < segments.length; i++) {
+      const suffix = segments.slice(i).join("/");
+      if (!bySuffix.has(suffix)) bySuffix.set(suffix, entry.uri);
+    }
+  }
+  return { byPath, bySuffix };
+}
+
+/**
+ * Resolves link targets in a document to the qmd:// URI of the linked
+ * document. File listings are cached per collection until invalidated.
+ */
+export class LinkResolver {
+  private files = new Map<string, Promise<FileEntry[]>>();
+  private indexes = new Map<string, Promise<FileIndex>>();
+  private paths = new Map<string, Promise<string | null>>();
+
+  invalidate(): void {
+    this.files.clear();
+    this.indexes.clear();
+    this.paths.clear();
+  }
+
+  /** Absolute path of a qmd:// URI on disk (memoized resolveQmdUri). */
+  resolvePath(uri: string, collections: Collection[]): Promise<string | null> {
+    let path = this.paths.get(uri);
+    if (!path) {
+      path = resolveQmdUri(uri, collections);
+      this.paths.set(uri, path);
+    }
+    return path;
+  }
+
+  async resolve(
+    link: LinkRef,
+    fromUri: string,
+    collections: Collection[],
+  ): Promise<string | null> {
+    if (link.kind === "qmd") return stripFragment(link.target);
+    const from = parseQmdUri(fromUri);
+    if (!from) return null;
+    if (link.kind === "wiki") {
+      return this.resolveWikilink(wikilinkTarget(link.target), from.collection, collections);
+    }
+    return this.resolveRelative(link.target, fromUri, from, collections);
+  }
+
+  private async resolveRelative(
+    target: string,
+    fromUri: string,
+    from: { collection: string; path: string },
+    collections: Collection[],
+  ): Promise<string | null> {
+    let path = stripFragment(target);
+    try {
+      path = decodeURIComponent(path);
+    } catch {}
+    if (!path) return null;
+
+    // Root-relative links point into the document's own collection
+    if (path.startsWith("/")) {
+      return this.findFile(from.collection, posix.normalize(path.slice(1)), collections);
+    }
+
+    // Resolve against the document's location on disk, so links may cross into other collections
+    const current = await this.resolvePath(fromUri, collections);
+    if (current) {
+      const absolute = resolve(dirname(current), path);
+      const owner = collections
+        .filter((c) => c.path && (absolute + sep).startsWith(c.path.replace(/\/?$/, sep)))
+        .sort((a, b) => b.path.length - a.path.length)[0];
+      if (!owner) return null;
+      return this.findFile(owner.name, relative(owner.path, absolute), collections);
+    }
+
+    // Collection path unknown: resolve within the URI path
+    const rel = posix.normalize(posix.join(posix.dirname(from.path), path));
+    if (rel.startsWith("..")) return null;
+    return this.findFile(from.collection, rel, collections);
+  }
+
+  private async resolveWikilink(
+    name: string,
+    fromCollection: string,
+    collections: Collection[],
+  ): Promise<string | null> {
+    if (!name) return null;
+    const key = pathKey(name);
+    // Prefer the linking document's own collection
+    const names = [
+      fromCollection,
+      ...collections.map((c) => c.name).filter((n) => n !== fromCollection),
+    ];
+    for (const collection of names) {
+      const index = await this.fileIndex(collection, collections);
+      const found = index.bySuffix.get(key);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  /** qmd:// URI of a collection-relative path, matched against the index. */
+  private async findFile(
+    collection: string,
+    path: string,
+    collections: Collection[],
+  ): Promise<string | null> {
+    if (path.startsWith("..")) return null;
+    const index = await this.fileIndex(collection, collections);
+    const found = index.byPath.get(pathKey(path));
+    if (found) return found;
+
+    // Not indexed (yet) — still open it if the file exists
+    for (const candidate of [path, `${path}.md`]) {
+      const uri = `qmd://${collection}/${candidate}`;
+      if (await this.resolvePath(uri, collections)) return uri;
+    }
+    return null;
+  }
+
+  /** Lookup tables over a collection's files (cached with the listing). */
+  private fileIndex(collection: string, collections: Collection[]): Promise<FileIndex> {
+    let index = this.indexes.get(collection);
+    if (!index) {
+      index = this.listFiles(collection, collections).then(buildFileIndex);
+      this.indexes.set(collection, index);
+    }
+    return index;
+  }
+
+  /** Indexed files of a collection (cached). */
+  listFiles(
+    collection: string,
+    collections: Collection[],
+  ): Promise<FileEntry[]> {
+    let entries = this.files.get(collection);
+    if (!entries) {
+      const col = collections.find((c) => c.name === collection);
+      entries = listFiles(collection).catch(() => {
+        this.files.delete(collection);
+        this.indexes.delete(collection);
+        return col?.path ? scanCollection(col) : [];
+      });
+      this.files.set(collection, entries);
+    }
+    return entries;
+  }
+}
+
+/** List a collection's files from disk when qmd can't list it. */
+async function scanCollection(col: Collection): Promise<FileEntry[]> {
+  const entries: FileEntry[] = [];
+  try {
+    const glob = new Bun.Glob(col.pattern || "**/*.md");
+    for await (const path of glob.scan({ cwd: col.path })) {
+      entries.push({ size: "", date: "", uri: `qmd://${col.name}/${path}`, path });
+    }
+  } catch {}
+  return entries;
+}
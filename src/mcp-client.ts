@@ -4,6 +4,8 @@ export type StatusCollection = {
   pattern: string;
   documents: number;
   lastUpdated: string;
+  /** Documents without embeddings, when qmd reports it per collection. */
+  needsEmbedding?: number;
 };
 
 export type StatusResult = {
@@ -31,6 +33,8 @@ export type SearchOptions = {
   explain?: boolean;
   candidateLimit?: number;
   all?: boolean;
+  /** Aborting kills the qmd child process (or cancels the MCP request). */
+  signal?: AbortSignal;
 };
 
 export type ContextEntry = {
@@ -45,9 +49,32 @@ export type CollectionDetail = {
   include: string;
 };
 
+export type MultiGetDocument = {
+  file: string;
+  body: string;
+};
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { ErrorCode, McpError, type CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import pkg from "../package.json";
 import { spawnEnv } from "./local-index.ts";
+import type { McpTransport } from "./config.ts";
+
+type ToolResult = Awaited<ReturnType<Client["callTool"]>>;
+
+type QuerySearch = { type: "lex" | "vec" | "hyde"; query: string };
+
+const CONNECT_TIMEOUT_MS = 3000;
+
+// Query expansion and reranking run local models, which may need loading first;
+// progress notifications from the server restart the clock
+const TOOL_TIMEOUT_MS = 5 * 60_000;
+
+async function run(args: string[], signal?: AbortSignal): Promise<string> {
+  signal?.throwIfAborted();
 
-async function run(args: string[]): Promise<string> {
   // Use temp file for stdout to avoid pipe buffer truncation with large outputs
   const { openSync, closeSync } = await import("node:fs");
   const { unlink } = await import("node:fs/promises");
@@ -59,11 +86,15 @@ async function run(args: string[]): Promise<string> {
       stdout: fd,
       stderr: "pipe",
       env: spawnEnv(),
+      signal,
     });
-    const errText = await new Response(proc.stderr).text();
+    const errPromise = new Response(proc.stderr).text();
     const code = await proc.exited;
     closeSync(fd);
 
+    // Don't wait for stderr EOF of a killed process — grandchildren may hold it open
+    signal?.throwIfAborted();
+    const errText = await errPromise;
     const text = await Bun.file(tmpFile).text();
     if (code !== 0) {
       throw new Error(`qmd ${args.join(" ")} failed (${code}): ${errText}`);
@@ -87,6 +118,7 @@ function parseStatus(output: string): StatusResult {
     const name = headerMatch[1]!;
     const patternMatch = block.match(/Pattern:\s+(.+)/);
     const filesMatch = block.match(/Files:\s+(\d+)\s+\(updated\s+(.+?)\)/);
+    const blockPending = block.match(/Pending:\s+(\d+)|(\d+)\s+(?:pending|need(?:s)? embedding)/i);
 
     collections.push({
       name,
@@ -94,6 +126,9 @@ function parseStatus(output: string): StatusResult {
       pattern: patternMatch?.[1]?.trim() ?? "**/*.md",
       documents: parseInt(filesMatch?.[1] ?? "0", 10),
       lastUpdated: filesMatch?.[2]?.trim() ?? "unknown",
+      needsEmbedding: blockPending
+        ? parseInt(blockPending[1] ?? blockPending[2]!, 10)
+        : undefined,
     });
   }
 
@@ -105,22 +140,26 @@ function parseStatus(output: string): StatusResult {
   };
 }
 
-function parseSearchOutput(output: string): SearchResult[] {
+function parseJsonArray<T>(output: string): T[] {
   const trimmed = output.trim();
   if (!trimmed || !trimmed.startsWith("[")) return [];
   try {
-    return JSON.parse(trimmed) as SearchResult[];
+    return JSON.parse(trimmed) as T[];
   } catch {
     // Try to find the JSON array in the output (qmd may prepend status text)
     const start = trimmed.indexOf("[");
     const end = trimmed.lastIndexOf("]");
     if (start >= 0 && end > start) {
-      return JSON.parse(trimmed.slice(start, end + 1)) as SearchResult[];
+      return JSON.parse(trimmed.slice(start, end + 1)) as T[];
     }
     return [];
   }
 }
 
+function parseSearchOutput(output: string): SearchResult[] {
+  return parseJsonArray<SearchResult>(output);
+}
+
 function buildSearchArgs(
   command: string,
   query: string,
@@ -141,10 +180,71 @@ function buildSearchArgs(
   return args;
 }
 
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`timed out after ${ms}ms`)), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (err) => {
+        clearTimeout(timer);
+        reject(err);
+      },
+    );
+  });
+}
+
+function toolText(result: ToolResult): string {
+  const parts: string[] = [];
+  // Results in the pre-2024-11 `toolResult` shape carry no content
+  const content: CallToolResult["content"] = Array.isArray(result.content) ? result.content : [];
+  for (const item of content) {
+    if (item.type === "text") parts.push(item.text);
+    else if (item.type === "resource" && "text" in item.resource) parts.push(item.resource.text);
+  }
+  return parts.join("\n");
+}
+
+// Split "lex: a\nvec: b" into typed sub-queries for the MCP query tool.
+// Returns null when the query uses a prefix the tool can't express (expand:, intent:).
+function parseStructuredQuery(query: string): QuerySearch[] | null {
+  const searches: QuerySearch[] = [];
+  for (const line of query.split("\n")) {
+    if (!line.trim()) continue;
+    const m = line.match(/^\s*(lex|vec|hyde):\s*(.*)$/);
+    if (!m) return null;
+    searches.push({ type: m[1] as QuerySearch["type"], query: m[2]!.trim() });
+  }
+  return searches.length > 0 ? searches : null;
+}
+
 export class QmdMcpClient {
-  constructor(private _port: number) {}
+  private client: Client | null = null;
+  /** Tools the server offers, with the names of their parameters. */
+  private tools = new Map<string, Set<string>>();
+  private activeTransport: "http" | "stdio" | "cli" = "cli";
+
+  constructor(
+    private port: number,
+    private transport: McpTransport = "auto",
+  ) {}
+
+  /** How queries currently reach qmd: "http", "stdio" or "cli" (one subprocess per call). */
+  get transportLabel(): string {
+    return this.activeTransport;
+  }
 
   async connect(): Promise<void> {
+    if (this.transport === "auto" || this.transport === "http") {
+      if (await this.connectHttp()) return;
+    }
+    if (this.transport === "auto" || this.transport === "stdio") {
+      if (await this.connectStdio()) return;
+    }
+
+    // No MCP server reachable — fall back to spawning qmd per call
     const proc = Bun.spawn(["qmd", "status"], {
       stdout: "pipe",
       stderr: "pipe",
@@ -153,16 +253,138 @@ export class QmdMcpClient {
     await proc.exited;
   }
 
-  async disconnect(): Promise<void> {}
+  private async connectHttp(): Promise<boolean> {
+    const transport = new StreamableHTTPClientTransport(
+      new URL(`http://localhost:${this.port}/mcp`),
+    );
+    return this.attach(transport, "http");
+  }
+
+  private async connectStdio(): Promise<boolean> {
+    const transport = new StdioClientTransport({
+      command: "qmd",
+      args: ["mcp"],
+      env: spawnEnv(),
+      stderr: "ignore",
+    });
+    return this.attach(transport, "stdio");
+  }
+
+  private async attach(
+    transport: StreamableHTTPClientTransport | StdioClientTransport,
+    kind: "http" | "stdio",
+  ): Promise<boolean> {
+    const client = new Client({ name: "lazyqmd", version: pkg.version });
+    try {
+      await withTimeout(client.connect(transport), CONNECT_TIMEOUT_MS);
+      const { tools } = await withTimeout(client.listTools(), CONNECT_TIMEOUT_MS);
+      this.tools = new Map(
+        tools.map((tool) => [tool.name, new Set(Object.keys(tool.inputSchema.properties ?? {}))]),
+      );
+      this.client = client;
+      this.activeTransport = kind;
+      return true;
+    } catch {
+      try { await client.close(); } catch {}
+      return false;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    this.activeTransport = "cli";
+    if (client) {
+      try { await client.close(); } catch {}
+    }
+  }
+
+  private toolAccepts(name: string, param: string): boolean {
+    return this.client !== null && (this.tools.get(name)?.has(param) ?? false);
+  }
+
+  /**
+   * Call a qmd MCP tool if the server offers it. Returns null when the
+   * subprocess path should be used instead — no server, unknown tool, or a
+   * lost connection (after which all further calls use the subprocess path).
+   * Errors and timeouts reported for the call itself are thrown.
+   */
+  private async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<ToolResult | null> {
+    if (!this.client || !this.tools.has(name)) return null;
+    let result: ToolResult;
+    try {
+      result = await this.client.callTool(
+        { name, arguments: args },
+        undefined,
+        {
+          signal,
+          timeout: TOOL_TIMEOUT_MS,
+          resetTimeoutOnProgress: true,
+          // Asks the server for progress notifications, which reset the timeout
+          onprogress: () => {},
+        },
+      );
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      if (err instanceof McpError && err.code !== ErrorCode.ConnectionClosed) {
+        throw new Error(`qmd ${name} failed: ${err.message}`);
+      }
+      await this.disconnect();
+      return null;
+    }
+    if (result.isError) {
+      throw new Error(`qmd ${name} failed: ${toolText(result)}`);
+    }
+    return result;
+  }
+
+  private async mcpQuery(
+    input: { searches: QuerySearch[] } | { query: string },
+    opts?: SearchOptions,
+  ): Promise<SearchResult[] | null> {
+    // The MCP query tool has no equivalent for these CLI flags
+    if (opts?.full || opts?.explain || opts?.all) return null;
+
+    const args: Record<string, unknown> = {
+      ...input,
+      limit: opts?.limit ?? 20,
+    };
+    if (opts?.collection) args.collections = [opts.collection];
+    if (opts?.minScore != null) args.minScore = opts.minScore;
+    if (opts?.candidateLimit != null) args.candidateLimit = opts.candidateLimit;
+
+    const result = await this.callTool("query", args, opts?.signal);
+    if (!result) return null;
+
+    const structured = result.structuredContent as
+      | { results?: SearchResult[] }
+      | undefined;
+    if (Array.isArray(structured?.results)) return structured.results;
+    return parseSearchOutput(toolText(result));
+  }
 
   async status(): Promise<StatusResult> {
+    const result = await this.callTool("status", {});
+    if (result) {
+      const structured = result.structuredContent as StatusResult | undefined;
+      if (structured && typeof structured.totalDocuments === "number") {
+        return structured;
+      }
+      return parseStatus(toolText(result));
+    }
     const output = await run(["status"]);
     return parseStatus(output);
   }
 
   async search(query: string, opts?: SearchOptions): Promise<SearchResult[]> {
+    const viaMcp = await this.mcpQuery({ searches: [{ type: "lex", query }] }, opts);
+    if (viaMcp) return viaMcp;
     const args = buildSearchArgs("search", query, opts);
-    const output = await run(args);
+    const output = await run(args, opts?.signal);
     return parseSearchOutput(output);
   }
 
@@ -170,8 +392,10 @@ export class QmdMcpClient {
     query: string,
     opts?: SearchOptions,
   ): Promise<SearchResult[]> {
+    const viaMcp = await this.mcpQuery({ searches: [{ type: "vec", query }] }, opts);
+    if (viaMcp) return viaMcp;
     const args = buildSearchArgs("vsearch", query, opts);
-    const output = await run(args);
+    const output = await run(args, opts?.signal);
     return parseSearchOutput(output);
   }
 
@@ -179,8 +403,18 @@ export class QmdMcpClient {
     query: string,
     opts?: SearchOptions,
   ): Promise<SearchResult[]> {
+    let viaMcp: SearchResult[] | null = null;
+    if (/^(lex|vec|hyde|expand|intent):/.test(query.trim())) {
+      const searches = parseStructuredQuery(query);
+      if (searches) viaMcp = await this.mcpQuery({ searches }, opts);
+    } else if (this.toolAccepts("query", "query")) {
+      // Plain queries go in as typed so the server expands them; a tool that
+      // only takes typed sub-queries can't, so `qmd query` runs them instead
+      viaMcp = await this.mcpQuery({ query }, opts);
+    }
+    if (viaMcp) return viaMcp;
     const args = buildSearchArgs("query", query, opts);
-    const output = await run(args);
+    const output = await run(args, opts?.signal);
     return parseSearchOutput(output);
   }
 
@@ -194,10 +428,33 @@ export class QmdMcpClient {
     return run(args);
   }
 
+  /**
+   * Full content of several documents (glob or comma-separated list).
+   * qmd skips files above `maxBytes` (its default is 10 KB).
+   */
+  async multiGetDocuments(
+    pattern: string,
+    opts?: { maxBytes?: number },
+  ): Promise<MultiGetDocument[]> {
+    const args = ["multi-get", pattern, "--json"];
+    if (opts?.maxBytes) args.push("--max-bytes", String(opts.maxBytes));
+    const output = await run(args);
+    return parseJsonArray<Record<string, unknown>>(output).map((doc) => ({
+      file: String(doc.file ?? doc.path ?? ""),
+      body: String(doc.body ?? doc.content ?? ""),
+    }));
+  }
+
   async getDocument(
     file: string,
     opts?: { maxLines?: number; lineNumbers?: boolean },
   ): Promise<string> {
+    const toolArgs: Record<string, unknown> = { file };
+    if (opts?.maxLines) toolArgs.maxLines = opts.maxLines;
+    if (opts?.lineNumbers) toolArgs.lineNumbers = true;
+    const result = await this.callTool("get", toolArgs);
+    if (result) return toolText(result);
+
     const args = ["get", file];
     if (opts?.maxLines) args.push("-l", String(opts.maxLines));
     if (opts?.lineNumbers) args.push("--line-numbers");
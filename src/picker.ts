@@ -0,0 +1,223 @@
+import {
+  BoxRenderable,
+  StyledText,
+  TextRenderable,
+  type CliRenderer,
+  type KeyEvent,
+  type TextChunk,
+  bold,
+  fg,
+} from "@opentui/core";
+import type { QmdMcpClient } from "./mcp-client.ts";
+import type { Theme } from "./theme.ts";
+import type { Keymap, ActionId, KeyContext } from "./keymap.ts";
+import { listCollections, resolveQmdUri, type Collection } from "./qmd-cli.ts";
+import { LinkResolver } from "./links.ts";
+import { FrontmatterIndex } from "./frontmatter.ts";
+import { SearchView, type SearchMode } from "./views/search.ts";
+import { findSnippetLine } from "./views/markdown.ts";
+import {
+  loadSearchStore,
+  saveSearchStore,
+  pushHistory,
+  type SearchStore,
+} from "./search-store.ts";
+
+export type PickerOptions = {
+  /** Initial query, run on start. */
+  query?: string;
+  mode?: SearchMode;
+  collection?: string;
+};
+
+/** The chosen result. */
+export type Pick = {
+  /** qmd:// URI */
+  file: string;
+  /** Absolute path, null for documents that aren't on disk. */
+  path: string | null;
+  /** 1-based line the result's snippet points at. */
+  line: number;
+};
+
+/**
+ * Compact search UI for `lazyqmd pick`: just the search view and a key
+ * hint line. `run()` resolves with the chosen result, or null when cancelled.
+ */
+export class Picker {
+  private root: BoxRenderable;
+  private searchView: SearchView;
+  private footerText: TextRenderable;
+  private collections: Collection[] = [];
+  private searchStore: SearchStore = { history: [], saved: [] };
+  private resolve: ((pick: Pick | null) => void) | null = null;
+
+  constructor(
+    private renderer: CliRenderer,
+    private mcp: QmdMcpClient,
+    private theme: Theme,
+    private keymap: Keymap,
+  ) {
+    this.root = new BoxRenderable(renderer, {
+      id: "picker-root",
+      flexDirection: "column",
+      width: "100%",
+      height: "100%",
+      border: true,
+      borderStyle: "rounded",
+      borderColor: theme.border_active,
+      backgroundColor: theme.background,
+      title: "lazyqmd pick",
+      titleAlignment: "left",
+    });
+
+    this.searchView = new SearchView(renderer, mcp, theme);
+    this.root.add(this.searchView.container);
+
+    this.footerText = new TextRenderable(renderer, {
+      id: "picker-footer",
+      content: "",
+      paddingLeft: 1,
+      fg: theme.foreground,
+    });
+    this.root.add(this.footerText);
+    renderer.root.add(this.root);
+
+    const frontmatter = new FrontmatterIndex(mcp, new LinkResolver());
+    this.searchView.loadFrontmatter = (uris) => frontmatter.load(uris, this.collections);
+    this.searchView.onQueryCommitted = (query) => {
+      pushHistory(this.searchStore, query);
+      saveSearchStore(this.searchStore).catch(() => {});
+    };
+    this.searchView.setOnDocumentOpen((file, _title, match) => {
+      this.pick(file, match?.snippet ?? "");
+    });
+
+    renderer.keyInput.on("keypress", (key: KeyEvent) => this.handleKey(key));
+  }
+
+  async run(options: PickerOptions = {}): Promise<Pick | null> {
+    const picked = new Promise<Pick | null>((resolve) => (this.resolve = resolve));
+    try {
+      this.collections = await listCollections();
+    } catch {
+      this.collections = [];
+    }
+    this.searchStore = await loadSearchStore();
+    this.searchView.setHistory(this.searchStore.history);
+    this.searchView.setCollection(options.collection);
+    this.searchView.focusInput();
+    this.updateFooter();
+
+    if (options.query) {
+      await this.searchView.runSaved({
+        query: options.query,
+        mode: options.mode ?? this.searchView.mode,
+        collection: options.collection,
+        options: {},
+      });
+      if (this.searchView.resultCount > 0) this.searchView.focusResults();
+    } else if (options.mode) {
+      while (this.searchView.mode !== options.mode) this.searchView.cycleMode();
+    }
+    this.updateFooter();
+    return picked;
+  }
+
+  private async pick(file: string, snippet: string): Promise<void> {
+    if (!this.resolve) return;
+    const path = await resolveQmdUri(file, this.collections);
+    let line = 1;
+    try {
+      const content = path ? await Bun.file(path).text() : await this.mcp.getDocument(file);
+      line = Math.max(0, findSnippetLine(content, snippet)) + 1;
+    } catch {
+      // Unreadable: point at the top
+    }
+    this.finish({ file, path, line });
+  }
+
+  private finish(pick: Pick | null): void {
+    const resolve = this.resolve;
+    this.resolve = null;
+    resolve?.(pick);
+  }
+
+  private contexts(): KeyContext[] {
+    return this.searchView.input.focused
+      ? ["search", "search.input", "input"]
+      : ["search", "global"];
+  }
+
+  private handleKey(key: KeyEvent): void {
+    if (key.ctrl && key.name === "c") {
+      key.preventDefault();
+      this.finish(null);
+      return;
+    }
+    const action = this.keymap.resolve(key, this.contexts());
+    if (action === "pending") {
+      key.preventDefault();
+      return;
+    }
+    if (action && this.runAction(action)) {
+      key.preventDefault();
+      this.updateFooter();
+    }
+  }
+
+  /** Returns false for actions the picker doesn't offer, leaving the key to the view. */
+  private runAction(id: ActionId): boolean {
+    switch (id) {
+      case "search.cycleMode":
+        this.searchView.cycleMode();
+        return true;
+      case "search.toggleAll":
+        this.searchView.toggleAll();
+        return true;
+      case "search.cycleMinScore":
+        this.searchView.cycleMinScore();
+        return true;
+      case "search.cycleCandidateLimit":
+        this.searchView.cycleCandidateLimit();
+        return true;
+      case "search.focusResults":
+        this.searchView.focusResults();
+        return true;
+      case "search.historyPrev":
+        this.searchView.historyPrev();
+        return true;
+      case "search.historyNext":
+        this.searchView.historyNext();
+        return true;
+      case "app.switchFocus":
+      case "app.back":
+        this.searchView.focusInput();
+        return true;
+      case "search.leave":
+      case "app.quit":
+        this.finish(null);
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private updateFooter(): void {
+    const items: [ActionId, string][] = [
+      ["search.cycleMode", `Mode (${this.searchView.modeLabel})`],
+      ["search.focusResults", "Results"],
+      ["search.leave", "Cancel"],
+    ];
+    const chunks: TextChunk[] = [bold("Enter"), fg(this.theme.foreground)(": Pick")];
+    for (const [id, label] of items) {
+      const keys = this.keymap.keyLabel(id);
+      if (!keys) continue;
+      chunks.push(fg(this.theme.foreground)("  "), bold(keys), fg(this.theme.foreground)(`: ${label}`));
+    }
+    const opts = this.searchView.optionsLabel;
+    const scope = this.searchView.scopeLabel;
+    chunks.push(fg(this.theme.muted)(opts ? `  [${scope}] {${opts}}` : `  [${scope}]`));
+    this.footerText.content = new StyledText(chunks);
+  }
+}
@@ -184,6 +184,29 @@ export async function listFiles(collection: string): Promise<FileEntry[]> {
     .filter((e): e is FileEntry => e !== null);
 }
 
-export async function embed(): Promise<void> {
-  await run(["embed"]);
+export type MaintenanceCommand = "update" | "embed";
+
+let scopeSupport: Promise<Record<MaintenanceCommand, boolean>> | null = null;
+
+/**
+ * Which maintenance commands can be limited to one collection (`-c <name>`),
+ * read from the usage lines of `qmd --help`. Cached for the session.
+ */
+export function collectionScopeSupport(): Promise<Record<MaintenanceCommand, boolean>> {
+  if (!scopeSupport) {
+    scopeSupport = run(["--help"])
+      .catch(() => "")
+      .then((help) => {
+        const supports = (command: MaintenanceCommand) =>
+          help
+            .split("\n")
+            .some(
+              (line) =>
+                new RegExp(`^\\s*(?:qmd\\s+)?${command}\\b`).test(line) &&
+                /(?:^|\s)(?:-c|--collection)\b|<collection/.test(line),
+            );
+        return { update: supports("update"), embed: supports("embed") };
+      });
+  }
+  return scopeSupport;
 }
@@ -0,0 +1,67 @@
+import { join } from "node:path";
+import { mkdir } from "node:fs/promises";
+import { CONFIG_DIR } from "./config.ts";
+import { localConfigDir } from "./local-index.ts";
+import type { SearchOptions } from "./mcp-client.ts";
+import type { SearchMode } from "./views/search.ts";
+
+export type SavedSearch = {
+  name: string;
+  query: string;
+  mode: SearchMode;
+  /** Collection scope; undefined searches all collections. */
+  collection?: string;
+  options: Omit<SearchOptions, "collection" | "signal">;
+};
+
+export type SearchStore = {
+  history: string[];
+  saved: SavedSearch[];
+};
+
+const STORE_PATH = join(CONFIG_DIR, "searches.json");
+const MAX_HISTORY = 200;
+
+// Global and local (.qmd) indexes keep separate history and saved searches
+function indexKey(): string {
+  return localConfigDir() ?? "global";
+}
+
+async function readAll(): Promise<Record<string, SearchStore>> {
+  const file = Bun.file(STORE_PATH);
+  if (!(await file.exists())) return {};
+  try {
+    return (await file.json()) as Record<string, SearchStore>;
+  } catch {
+    return {};
+  }
+}
+
+export async function loadSearchStore(): Promise<SearchStore> {
+  const all = await readAll();
+  const store = all[indexKey()];
+  return {
+    history: store?.history ?? [],
+    saved: store?.saved ?? [],
+  };
+}
+
+export async function saveSearchStore(store: SearchStore): Promise<void> {
+  const all = await readAll();
+  all[indexKey()] = {
+    history: store.history.slice(-MAX_HISTORY),
+    saved: store.saved,
+  };
+  await mkdir(CONFIG_DIR, { recursive: true });
+  await Bun.write(STORE_PATH, JSON.stringify(all, null, 2) + "\n");
+}
+
+/** Append a query to the history, moving an existing duplicate to the end. */
+export function pushHistory(store: SearchStore, query: string): void {
+  const idx = store.history.indexOf(query);
+  if (idx >= 0) store.history.splice(idx, 1);
+  store.history.push(query);
+  if (store.history.length > MAX_HISTORY) {
+    store.history.splice(0, store.history.length - MAX_HISTORY);
+  }
+}
@@ -5,14 +5,24 @@ import {
   type RenderContext,
 } from "@opentui/core";
 import type { Collection } from "../qmd-cli.ts";
+import type { SavedSearch } from "../search-store.ts";
 import type { Theme } from "../theme.ts";
 
 export type CollectionSelectedHandler = (collection: Collection) => void;
+export type SavedSearchSelectedHandler = (saved: SavedSearch) => void;
+
+const SAVED_PREFIX = "saved:";
 
 export class CollectionsView {
   readonly select: SelectRenderable;
   private collections: Collection[] = [];
+  private savedSearches: SavedSearch[] = [];
+  // Collections marked for update/embed
+  private marked = new Set<string>();
+  private watching = new Set<string>();
+  private stale = new Set<string>();
   private onSelected: CollectionSelectedHandler | null = null;
+  private onSavedSelected: SavedSearchSelectedHandler | null = null;
 
   constructor(ctx: RenderContext, private theme: Theme) {
     this.select = new SelectRenderable(ctx, {
@@ -32,6 +42,11 @@ export class CollectionsView {
     this.select.on(
       SelectRenderableEvents.ITEM_SELECTED,
       (_index: number, option: SelectOption) => {
+        const saved = this.findSavedSearch(option.value);
+        if (saved) {
+          this.onSavedSelected?.(saved);
+          return;
+        }
         const col = this.collections.find((c) => c.name === option.value);
         if (col && this.onSelected) this.onSelected(col);
       },
@@ -42,19 +57,77 @@ export class CollectionsView {
     this.onSelected = handler;
   }
 
+  setOnSavedSelected(handler: SavedSearchSelectedHandler): void {
+    this.onSavedSelected = handler;
+  }
+
+  private findSavedSearch(value: unknown): SavedSearch | undefined {
+    if (typeof value !== "string" || !value.startsWith(SAVED_PREFIX)) {
+      return undefined;
+    }
+    const name = value.slice(SAVED_PREFIX.length);
+    return this.savedSearches.find((s) => s.name === name);
+  }
+
+  getSelectedSavedSearch(): SavedSearch | undefined {
+    return this.findSavedSearch(this.select.getSelectedOption()?.value);
+  }
+
   getSelectedCollection(): Collection | undefined {
     const opt = this.select.getSelectedOption();
     if (!opt || opt.value === "__all__") return undefined;
     return this.collections.find((c) => c.name === opt.value);
   }
 
+  /** Highlight a collection by name. Returns false when there's no such collection. */
+  selectCollection(name: string): boolean {
+    const index = this.collections.findIndex((c) => c.name === name);
+    if (index < 0) return false;
+    // "All" is the first row
+    this.select.setSelectedIndex(index + 1);
+    return true;
+  }
+
+  /** Mark or unmark the selected collection. Returns false when no collection is selected. */
+  toggleMarked(): boolean {
+    const col = this.getSelectedCollection();
+    if (!col) return false;
+    if (!this.marked.delete(col.name)) this.marked.add(col.name);
+    this.update(this.collections);
+    return true;
+  }
+
+  /** Marked collections, or else the selected one; empty means all. */
+  getTargetCollections(): Collection[] {
+    if (this.marked.size > 0) {
+      return this.collections.filter((c) => this.marked.has(c.name));
+    }
+    const col = this.getSelectedCollection();
+    return col ? [col] : [];
+  }
+
+  /** Watched collections and those with unindexed changes (marked with *). */
+  setWatchState(watching: string[], stale: string[]): void {
+    this.watching = new Set(watching);
+    this.stale = new Set(stale);
+    this.update(this.collections);
+  }
+
   isAllSelected(): boolean {
     const opt = this.select.getSelectedOption();
     return !opt || opt.value === "__all__";
   }
 
+  setSavedSearches(saved: SavedSearch[]): void {
+    this.savedSearches = saved;
+    this.update(this.collections);
+  }
+
   update(collections: Collection[]): void {
     this.collections = collections;
+    for (const name of this.marked) {
+      if (!collections.some((c) => c.name === name)) this.marked.delete(name);
+    }
     const totalFiles = collections.reduce((sum, c) => sum + c.files, 0);
     this.select.options = [
       {
@@ -63,10 +136,21 @@ export class CollectionsView {
         value: "__all__",
       },
       ...collections.map((c) => ({
-        name: `${c.name} (${c.files})`,
-        description: `Updated: ${c.updated}`,
+        name: `${this.marked.has(c.name) ? "● " : ""}${c.name} (${c.files})${this.stale.has(c.name) ? " *" : ""}`,
+        description: [
+          this.watching.has(c.name) ? "Watching" : "",
+          this.stale.has(c.name) ? "Changed" : "",
+          `Updated: ${c.updated}`,
+        ]
+          .filter(Boolean)
+          .join(" · "),
         value: c.name,
       })),
+      ...this.savedSearches.map((saved) => ({
+        name: `★ ${saved.name}`,
+        description: `${saved.mode}: ${saved.query}`,
+        value: `${SAVED_PREFIX}${saved.name}`,
+      })),
     ];
   }
 }
@@ -0,0 +1,302 @@
+import {
+  BoxRenderable,
+  StyledText,
+  TextRenderable,
+  type RenderContext,
+  type TextChunk,
+  t,
+  bold,
+  fg,
+} from "@opentui/core";
+import type { QmdMcpClient, SearchResult, SearchOptions } from "../mcp-client.ts";
+import type { Theme } from "../theme.ts";
+import { matchesFilters, parseFieldFilters, type Frontmatter } from "../frontmatter.ts";
+import { RowList, type Row } from "./row-list.ts";
+import type { DocumentOpenHandler, SearchMode } from "./search.ts";
+
+type Column = {
+  mode: SearchMode;
+  label: string;
+  box: BoxRenderable;
+  list: RowList;
+  /** null while the search runs */
+  results: SearchResult[] | null;
+  error: string | null;
+  ms: number;
+};
+
+const COLUMNS: { mode: SearchMode; label: string }[] = [
+  { mode: "search", label: "Search" },
+  { mode: "vsearch", label: "Vector" },
+  { mode: "query", label: "Query" },
+];
+
+function seconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * The same query through BM25, vector and hybrid search, side by side.
+ * Each result shows its rank in the other two modes; moving in one column
+ * highlights the same document in the others.
+ */
+export class CompareView {
+  readonly container: BoxRenderable;
+  private statusText: TextRenderable;
+  private columns: Column[];
+  private focusedColumn = 0;
+  private generation = 0;
+  private inflight: AbortController | null = null;
+  private query = "";
+
+  onDocumentOpen: DocumentOpenHandler | null = null;
+  /** Frontmatter of the given qmd:// URIs, for @field:value filters in the query. */
+  loadFrontmatter:
+    | ((uris: string[]) => Promise<Map<string, Frontmatter | null>>)
+    | null = null;
+
+  constructor(
+    private ctx: RenderContext,
+    private mcp: QmdMcpClient,
+    private theme: Theme,
+  ) {
+    this.container = new BoxRenderable(ctx, {
+      id: "compare-container",
+      flexDirection: "column",
+      flexGrow: 1,
+    });
+
+    this.statusText = new TextRenderable(ctx, {
+      id: "compare-status",
+      content: "",
+      paddingLeft: 1,
+    });
+    this.container.add(this.statusText);
+
+    const row = new BoxRenderable(ctx, {
+      id: "compare-columns",
+      flexDirection: "row",
+      flexGrow: 1,
+    });
+    this.container.add(row);
+
+    this.columns = COLUMNS.map(({ mode, label }) => {
+      const box = new BoxRenderable(ctx, {
+        id: `compare-${mode}`,
+        flexGrow: 1,
+        flexBasis: 0,
+        border: true,
+        borderStyle: "rounded",
+        borderColor: theme.border_inactive,
+        title: label,
+        titleAlignment: "left",
+        flexDirection: "column",
+      });
+      const list = new RowList(ctx, theme, `compare-${mode}-results`);
+      box.add(list.scroll);
+      row.add(box);
+      return { mode, label, box, list, results: null, error: null, ms: 0 };
+    });
+
+    for (const column of this.columns) {
+      column.list.onHighlight = (file) => {
+        // Rows filling in shouldn't move the highlight, only the user
+        if (file === null || !column.list.focused) return;
+        for (const other of this.columns) {
+          if (other !== column) other.list.select(file);
+        }
+      };
+      column.list.onSelect = (file) => {
+        const result = column.results?.find((r) => r.file === file);
+        const match = result
+          ? { query: this.query, snippet: result.snippet, mode: column.mode }
+          : undefined;
+        this.onDocumentOpen?.(file, result?.title ?? file, match);
+      };
+    }
+  }
+
+  /**
+   * Run `query` in all three modes at once with the search view's options.
+   * Each column fills in as its search finishes, so the latencies show.
+   */
+  async run(query: string, opts: SearchOptions): Promise<void> {
+    this.cancel();
+    const generation = this.generation;
+    const controller = new AbortController();
+    this.inflight = controller;
+    const isCurrent = () => generation === this.generation;
+
+    if (/^(lex|vec|hyde|expand|intent):/.test(query.trim())) {
+      this.statusText.content = t`${fg(this.theme.warning)("Structured queries only run in Query mode; nothing to compare.")}`;
+      return;
+    }
+    const { text, filters } = parseFieldFilters(query);
+    if (!text) {
+      this.statusText.content = t`${fg(this.theme.warning)("Add search terms besides the frontmatter filters.")}`;
+      return;
+    }
+    this.query = text;
+
+    for (const column of this.columns) {
+      column.results = null;
+      column.error = null;
+    }
+    this.render();
+    this.statusText.content = t`${fg(this.theme.muted)("Running all three modes...")}`;
+
+    const started = performance.now();
+    await Promise.all(
+      this.columns.map(async (column) => {
+        const searchOpts = { ...opts, signal: controller.signal };
+        try {
+          let results: SearchResult[];
+          switch (column.mode) {
+            case "search":
+              results = await this.mcp.search(text, searchOpts);
+              break;
+            case "vsearch":
+              results = await this.mcp.vectorSearch(text, searchOpts);
+              break;
+            case "query":
+              results = await this.mcp.deepSearch(text, searchOpts);
+              break;
+          }
+          column.ms = performance.now() - started;
+          if (filters.length > 0 && this.loadFrontmatter) {
+            const frontmatter = await this.loadFrontmatter(results.map((r) => r.file));
+            results = results.filter((r) =>
+              matchesFilters(frontmatter.get(r.file) ?? null, filters),
+            );
+          }
+          if (!isCurrent()) return;
+          column.results = results;
+        } catch (err) {
+          if (!isCurrent()) return;
+          column.ms = performance.now() - started;
+          column.results = [];
+          column.error = String(err);
+        }
+        this.render();
+      }),
+    );
+    if (!isCurrent()) return;
+    this.inflight = null;
+    this.statusText.content = this.makeSummary();
+  }
+
+  /** Stop the searches of a comparison still running. */
+  cancel(): void {
+    this.generation++;
+    if (this.inflight) {
+      this.inflight.abort();
+      this.inflight = null;
+    }
+  }
+
+  focus(): void {
+    this.focusColumn(this.focusedColumn);
+  }
+
+  nextColumn(): void {
+    this.focusColumn((this.focusedColumn + 1) % this.columns.length);
+  }
+
+  prevColumn(): void {
+    this.focusColumn((this.focusedColumn + this.columns.length - 1) % this.columns.length);
+  }
+
+  private focusColumn(index: number): void {
+    const previous = this.columns[this.focusedColumn]!.list.selectedValue;
+    this.focusedColumn = index;
+    for (const [i, column] of this.columns.entries()) {
+      column.box.borderColor = i === index ? this.theme.accent : this.theme.border_inactive;
+    }
+    const list = this.columns[index]!.list;
+    // Keep the highlighted document if this column has it
+    if (list.selectedValue === null && previous !== null) list.select(previous);
+    list.focus();
+  }
+
+  private render(): void {
+    for (const column of this.columns) {
+      if (column.results === null) {
+        column.box.title = `${column.label} …`;
+        column.list.setRows([{ value: null, content: t`${fg(this.theme.muted)("Searching...")}` }]);
+        continue;
+      }
+      column.box.title = `${column.label} (${column.results.length}) ${seconds(column.ms)}`;
+      if (column.error) {
+        column.list.setRows([{ value: null, content: t`${fg(this.theme.error)(`Error: ${column.error}`)}` }]);
+      } else if (column.results.length === 0) {
+        column.list.setRows([{ value: null, content: t`${fg(this.theme.muted)("No results")}` }]);
+      } else {
+        column.list.setRows(column.results.map((r, i) => this.resultRow(column, r, i + 1)));
+      }
+    }
+    const focused = this.columns[this.focusedColumn]!.list.selectedValue;
+    if (focused === null) return;
+    for (const [i, column] of this.columns.entries()) {
+      if (i !== this.focusedColumn) column.list.select(focused);
+    }
+  }
+
+  /**
+   * Rank and title, marked by how many modes found the document; the path;
+   * then the document's rank in the other modes and how far it moved here.
+   */
+  private resultRow(column: Column, r: SearchResult, rank: number): Row {
+    const muted = fg(this.theme.muted);
+    const others = this.columns.filter((c) => c !== column);
+    const shared = 1 + others.filter((c) => c.results?.some((x) => x.file === r.file)).length;
+    const marker =
+      shared === 3
+        ? fg(this.theme.success)("● ")
+        : shared === 2
+          ? fg(this.theme.warning)("◐ ")
+          : muted("○ ");
+
+    const chunks: TextChunk[] = [
+      marker,
+      muted(`${rank}. `),
+      bold(fg(this.theme.foreground)(r.title || r.file)),
+      muted(`\n${Math.round(r.score * 100)}%  ${r.file}\n`),
+    ];
+    for (const [i, other] of others.entries()) {
+      if (i > 0) chunks.push(muted("  "));
+      chunks.push(fg(this.theme.accent)(`${other.label} `));
+      if (other.results === null) {
+        chunks.push(muted("…"));
+        continue;
+      }
+      const at = other.results.findIndex((x) => x.file === r.file);
+      if (at < 0) {
+        chunks.push(muted("–"));
+        continue;
+      }
+      // Positive: ranked higher here than in the other mode
+      const moved = at + 1 - rank;
+      chunks.push(fg(this.theme.foreground)(`#${at + 1}`));
+      if (moved > 0) chunks.push(fg(this.theme.success)(` ↑${moved}`));
+      else if (moved < 0) chunks.push(fg(this.theme.error)(` ↓${-moved}`));
+      else chunks.push(muted(" ="));
+    }
+    return { value: r.file, content: new StyledText(chunks) };
+  }
+
+  /** How much the result lists overlap. */
+  private makeSummary(): StyledText {
+    const sets = this.columns.map((c) => new Set((c.results ?? []).map((r) => r.file)));
+    const all = new Set(sets.flatMap((s) => [...s]));
+    const inAll = [...all].filter((file) => sets.every((s) => s.has(file))).length;
+    const pairs = [
+      [0, 1],
+      [0, 2],
+      [1, 2],
+    ].map(([a, b]) => {
+      const n = [...sets[a!]!].filter((file) => sets[b!]!.has(file)).length;
+      return `${this.columns[a!]!.label}∩${this.columns[b!]!.label} ${n}`;
+    });
+    return t`${fg(this.theme.success)(`● ${inAll} in all three`)}  ${fg(this.theme.muted)(`${all.size} distinct · ${pairs.join(" · ")}`)}`;
+  }
+}
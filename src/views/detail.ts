@@ -3,12 +3,14 @@ import {
   InputRenderable,
   InputRenderableEvents,
   TextRenderable,
+  StyledText,
   type RenderContext,
   t,
   bold,
   fg,
 } from "@opentui/core";
 import type { Collection } from "../qmd-cli.ts";
+import type { SavedSearch } from "../search-store.ts";
 import type { Theme } from "../theme.ts";
 
 export class DetailView {
@@ -18,6 +20,7 @@ export class DetailView {
   private patternText: TextRenderable;
   private filesText: TextRenderable;
   private updatedText: TextRenderable;
+  private indexText: TextRenderable;
   private contextText: TextRenderable;
   private contextEditLabel: TextRenderable;
   readonly contextInput: InputRenderable;
@@ -61,6 +64,11 @@ export class DetailView {
       content: "",
     });
 
+    this.indexText = new TextRenderable(ctx, {
+      id: "detail-index",
+      content: "",
+    });
+
     this.contextText = new TextRenderable(ctx, {
       id: "detail-context",
       content: "",
@@ -99,6 +107,7 @@ export class DetailView {
     this.container.add(this.patternText);
     this.container.add(this.filesText);
     this.container.add(this.updatedText);
+    this.container.add(this.indexText);
 
     if (this._editing) {
       this.container.add(this.contextEditLabel);
@@ -133,6 +142,7 @@ export class DetailView {
     this.patternText.content = t`${fg(this.theme.muted)("Pattern:")}  ${collection.pattern}`;
     this.filesText.content = t`${fg(this.theme.muted)("Files:")}    ${String(collection.files)}`;
     this.updatedText.content = t`${fg(this.theme.muted)("Updated:")}  ${collection.updated}`;
+    this.indexText.content = "";
     this.contextText.content = "";
     this.statusText.content = "";
   }
@@ -152,6 +162,7 @@ export class DetailView {
     this.patternText.content = t`${fg(this.theme.muted)("Collections:")}  ${String(collections.length)}`;
     this.filesText.content = t`${fg(this.theme.muted)("Total files:")}  ${String(totalFiles)}`;
     this.updatedText.content = "";
+    this.indexText.content = "";
     this.contextText.content = "";
     if (this._editing) {
       this._editing = false;
@@ -159,6 +170,40 @@ export class DetailView {
     }
   }
 
+  /** Embedding and maintenance-run info below the collection details, as label/value rows. */
+  showIndexInfo(rows: [label: string, value: string][]): void {
+    const width = Math.max(0, ...rows.map(([label]) => label.length)) + 2;
+    this.indexText.content = new StyledText(
+      rows.flatMap(([label, value], i) => [
+        fg(this.theme.muted)(`${i > 0 ? "\n" : ""}${label.padEnd(width)}`),
+        fg(this.theme.foreground)(value),
+      ]),
+    );
+  }
+
+  showSavedSearch(saved: SavedSearch): void {
+    const opts = saved.options;
+    const flags: string[] = [];
+    if (opts.full) flags.push("full");
+    if (opts.explain) flags.push("explain");
+    if (opts.all) flags.push("all");
+    if (opts.minScore != null) flags.push(`min:${opts.minScore}`);
+    if (opts.candidateLimit != null) flags.push(`C:${opts.candidateLimit}`);
+
+    this.titleText.content = t`${bold(fg(this.theme.title)(saved.name))} ${fg(this.theme.muted)("(saved search, Enter to run, d to delete)")}`;
+    this.pathText.content = t`${fg(this.theme.muted)("Query:")}    ${saved.query}`;
+    this.patternText.content = t`${fg(this.theme.muted)("Mode:")}     ${saved.mode}`;
+    this.filesText.content = t`${fg(this.theme.muted)("Scope:")}    ${saved.collection ?? "All"}`;
+    this.updatedText.content = t`${fg(this.theme.muted)("Options:")}  ${flags.join(" ") || "none"}`;
+    this.indexText.content = "";
+    this.contextText.content = "";
+    this.statusText.content = "";
+    if (this._editing) {
+      this._editing = false;
+      this.rebuildLayout();
+    }
+  }
+
   showStatus(message: string, error = false): void {
     this.statusText.content = error
       ? t`${fg(this.theme.error)(message)}`
@@ -171,6 +216,7 @@ export class DetailView {
     this.patternText.content = "";
     this.filesText.content = "";
     this.updatedText.content = "";
+    this.indexText.content = "";
     this.contextText.content = "";
     this.statusText.content = "";
     if (this._editing) {
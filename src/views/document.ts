@@ -1,52 +1,207 @@
 import {
+  BoxRenderable,
+  InputRenderable,
+  InputRenderableEvents,
   ScrollBoxRenderable,
+  SelectRenderable,
+  SelectRenderableEvents,
   TextRenderable,
   MarkdownRenderable,
-  SyntaxStyle,
   parseColor,
+  StyledText,
+  type SyntaxStyle,
+  type TextChunk,
+  type Renderable,
   type RenderContext,
   t,
   bold,
   fg,
 } from "@opentui/core";
-import YAML from "yaml";
 import type { QmdMcpClient } from "../mcp-client.ts";
+import {
+  QMD_URI_PATTERN,
+  WIKILINK_PATTERN,
+  classifyLinkUrl,
+  type LinkRef,
+} from "../links.ts";
 import type { Theme } from "../theme.ts";
+import type { Backlink } from "../link-graph.ts";
+import type { SearchMode } from "./search.ts";
+import {
+  formatFrontmatterValue,
+  frontmatterTags,
+  splitFrontmatter,
+  type Frontmatter,
+} from "../frontmatter.ts";
+import {
+  afterLayout,
+  createMarkdownStyle,
+  escapeRegExp,
+  findMatchRanges,
+  findSnippetLine,
+  highlightRanges,
+  parseHeadings,
+  queryTermsRegex,
+  snippetText,
+  type Heading,
+  type HighlightColors,
+} from "./markdown.ts";
+
+/** The search hit a document was opened from. */
+export type DocumentMatch = {
+  query: string;
+  snippet: string;
+  /** Mode the query ran in, for picking its lexical terms. */
+  mode?: SearchMode;
+};
+
+type BlockLine = {
+  block: Renderable;
+  /** 0-based source line the block starts on. */
+  line: number;
+};
+
+type BlockMatch = {
+  block: TextRenderable;
+  /** Index of the match within its block. */
+  range: number;
+  /** Row offset of the match inside the block (ignoring soft wraps). */
+  row: number;
+  /** Approximate source line, used to find the match nearest a snippet. */
+  line: number;
+};
+
+type BlockLink = LinkRef & {
+  block: TextRenderable;
+  /** Character range of the link text within its block. */
+  start: number;
+  end: number;
+  /** Row offset of the link inside the block (ignoring soft wraps). */
+  row: number;
+};
+
+/** Where to scroll a freshly opened document. */
+type OpenPosition = {
+  match?: DocumentMatch;
+  line?: number;
+  scrollTop?: number;
+};
+
+/** A visited document, restored by back/forward navigation. */
+type HistoryEntry = {
+  file: string;
+  title: string;
+  scrollTop: number;
+};
+
+function countNewlines(s: string): number {
+  let n = 0;
+  for (const ch of s) if (ch === "\n") n++;
+  return n;
+}
 
 export class DocumentView {
-  readonly container: ScrollBoxRenderable;
+  readonly container: BoxRenderable;
+  readonly scroll: ScrollBoxRenderable;
   private contentMarkdown: MarkdownRenderable;
   private headerText: TextRenderable;
+  // Frontmatter fields, shown between the header and the content
+  private metaBox: BoxRenderable;
+  private metaText: TextRenderable;
+  private metaVisible = false;
+  // Source lines taken by frontmatter, which isn't part of the rendered markdown
+  private bodyLineOffset = 0;
   private syntaxStyle: SyntaxStyle;
   private currentFile: string | null = null;
   private currentTitle: string | null = null;
   private currentContent: string | null = null;
+  // Bumped by every open(), so a slow read can't overwrite a newer document
+  private openGeneration = 0;
+  // Snippet of the search result the document was opened from
+  private currentSnippet: string | null = null;
+
+  // Highlighted matches, navigated with n/N
+  private highlightRegex: RegExp | null = null;
+  private highlightColors: HighlightColors;
+  private matches: BlockMatch[] = [];
+  private currentMatch = -1;
+  // Unhighlighted content of each text block, so highlights can be re-applied
+  private originals = new WeakMap<
+    TextRenderable,
+    { original: StyledText; shown: StyledText }
+  >();
+
+  // Find bar (/): literal or regex search over the document
+  private findRow: BoxRenderable;
+  readonly findInput: InputRenderable;
+  private findStatus: TextRenderable;
+  private findVisible = false;
+  private findRegexMode = false;
+  private findError: string | null = null;
+  private wrapped = false;
+
+  onFindClose: (() => void) | null = null;
+
+  // Outline (table of contents) pane
+  private body: BoxRenderable;
+  private outlinePane: BoxRenderable;
+  readonly outline: SelectRenderable;
+  private outlineVisible = false;
+  private headings: Heading[] = [];
+
+  // Followable links (l/L to cycle, Enter to follow) and back/forward history
+  private linkColors: HighlightColors;
+  private links: BlockLink[] = [];
+  private currentLink = -1;
+  private backStack: HistoryEntry[] = [];
+  private forwardStack: HistoryEntry[] = [];
+
+  onFollowLink: ((link: LinkRef) => void) | null = null;
+
+  // Backlinks pane: documents linking to the open one
+  private backlinksPane: BoxRenderable;
+  private backlinksHeader: TextRenderable;
+  readonly backlinksList: SelectRenderable;
+  private backlinksVisible = false;
+  private backlinks: Backlink[] = [];
+  private backlinksGeneration = 0;
+
+  loadBacklinks: ((file: string) => Promise<Backlink[]>) | null = null;
+  onOpenBacklink: ((backlink: Backlink) => void) | null = null;
 
   constructor(
     private ctx: RenderContext,
     private mcp: QmdMcpClient,
     private theme: Theme,
   ) {
-    this.syntaxStyle = SyntaxStyle.fromStyles({
-      default: { fg: parseColor(theme.foreground) },
-      "markup.heading": { fg: parseColor(theme.heading), bold: true },
-      "markup.heading.1": { fg: parseColor(theme.heading), bold: true },
-      "markup.heading.2": { fg: parseColor(theme.heading), bold: true },
-      "markup.heading.3": { fg: parseColor(theme.heading), bold: true },
-      "markup.heading.4": { fg: parseColor(theme.heading), bold: true },
-      "markup.strong": { fg: parseColor(theme.strong), bold: true },
-      "markup.italic": { fg: parseColor(theme.italic), italic: true },
-      "markup.raw": { fg: parseColor(theme.code) },
-      "markup.strikethrough": { dim: true },
-      "markup.link.label": { fg: parseColor(theme.link), underline: true },
-      "markup.link.url": { fg: parseColor(theme.link_url) },
-      "markup.link": { fg: parseColor(theme.muted) },
-      "markup.list": { fg: parseColor(theme.list) },
-      "punctuation.special": { fg: parseColor(theme.muted) },
-      conceal: { fg: parseColor(theme.muted) },
-    });
-
-    this.container = new ScrollBoxRenderable(ctx, {
+    this.syntaxStyle = createMarkdownStyle(theme);
+    this.highlightColors = {
+      fg: parseColor(theme.background),
+      bg: parseColor(theme.warning),
+      currentFg: parseColor(theme.background),
+      currentBg: parseColor(theme.accent),
+    };
+    this.linkColors = {
+      fg: parseColor(theme.link),
+      bg: parseColor(theme.background),
+      currentFg: parseColor(theme.background),
+      currentBg: parseColor(theme.link),
+    };
+
+    this.container = new BoxRenderable(ctx, {
+      id: "document-container",
+      flexDirection: "column",
+      flexGrow: 1,
+    });
+
+    this.body = new BoxRenderable(ctx, {
+      id: "document-body",
+      flexDirection: "row",
+      flexGrow: 1,
+    });
+    this.container.add(this.body);
+
+    this.scroll = new ScrollBoxRenderable(ctx, {
       id: "document-scroll",
       rootOptions: {
         flexGrow: 1,
@@ -68,10 +223,358 @@ export class DocumentView {
       content: "",
       syntaxStyle: this.syntaxStyle,
       conceal: true,
+      renderNode: (_token, context) => {
+        const block = context.defaultRender();
+        if (block instanceof TextRenderable) this.decorate(block, -1);
+        return block;
+      },
     });
 
-    this.container.add(this.headerText);
-    this.container.add(this.contentMarkdown);
+    this.metaBox = new BoxRenderable(ctx, {
+      id: "document-meta",
+      border: ["left"],
+      borderColor: theme.border_inactive,
+      paddingLeft: 1,
+      marginTop: 1,
+      marginBottom: 1,
+    });
+    this.metaText = new TextRenderable(ctx, {
+      id: "document-meta-text",
+      content: "",
+    });
+    this.metaBox.add(this.metaText);
+
+    this.scroll.add(this.headerText);
+    this.scroll.add(this.contentMarkdown);
+    this.body.add(this.scroll);
+
+    this.outlinePane = new BoxRenderable(ctx, {
+      id: "document-outline-pane",
+      width: 32,
+      flexDirection: "column",
+      border: ["left"],
+      borderColor: theme.border_inactive,
+      paddingLeft: 1,
+    });
+    this.outline = new SelectRenderable(ctx, {
+      id: "document-outline",
+      flexGrow: 1,
+      options: [],
+      showDescription: false,
+      showScrollIndicator: true,
+      selectedBackgroundColor: theme.selection_bg,
+      selectedTextColor: theme.selection_fg,
+    });
+    this.outlinePane.add(this.outline);
+    // Follow the highlighted heading; Enter hands focus back to the document
+    this.outline.on(SelectRenderableEvents.SELECTION_CHANGED, (index: number) => {
+      const heading = this.headings[index];
+      if (heading) this.scrollToLine(heading.line);
+    });
+    this.outline.on(SelectRenderableEvents.ITEM_SELECTED, (index: number) => {
+      const heading = this.headings[index];
+      if (heading) this.scrollToLine(heading.line);
+      this.scroll.focus();
+    });
+
+    this.backlinksPane = new BoxRenderable(ctx, {
+      id: "document-backlinks-pane",
+      width: 40,
+      flexDirection: "column",
+      border: ["left"],
+      borderColor: theme.border_inactive,
+      paddingLeft: 1,
+    });
+    this.backlinksHeader = new TextRenderable(ctx, {
+      id: "document-backlinks-header",
+      content: "",
+    });
+    this.backlinksList = new SelectRenderable(ctx, {
+      id: "document-backlinks",
+      flexGrow: 1,
+      options: [],
+      showDescription: true,
+      showScrollIndicator: true,
+      selectedBackgroundColor: theme.selection_bg,
+      selectedTextColor: theme.selection_fg,
+    });
+    this.backlinksPane.add(this.backlinksHeader);
+    this.backlinksPane.add(this.backlinksList);
+    this.backlinksList.on(SelectRenderableEvents.ITEM_SELECTED, (index: number) => {
+      const backlink = this.backlinks[index];
+      if (backlink) this.onOpenBacklink?.(backlink);
+    });
+
+    this.findRow = new BoxRenderable(ctx, {
+      id: "document-find-row",
+      flexDirection: "row",
+      paddingLeft: 1,
+      gap: 1,
+    });
+    this.findInput = new InputRenderable(ctx, {
+      id: "document-find-input",
+      width: 40,
+      placeholder: "Find in document...",
+    });
+    this.findStatus = new TextRenderable(ctx, {
+      id: "document-find-status",
+      content: "",
+    });
+    this.findRow.add(
+      new TextRenderable(ctx, {
+        id: "document-find-label",
+        flexShrink: 0,
+        content: t`${bold(fg(theme.accent)("Find:"))}`,
+      }),
+    );
+    this.findRow.add(this.findInput);
+    this.findRow.add(this.findStatus);
+
+    this.findInput.on(InputRenderableEvents.INPUT, (value: string) => {
+      this.applyFind(value);
+    });
+    this.findInput.on(InputRenderableEvents.ENTER, () => {
+      this.closeFind(false);
+    });
+  }
+
+  focus(): void {
+    this.scroll.focus();
+  }
+
+  get outlineShown(): boolean {
+    return this.outlineVisible;
+  }
+
+  toggleOutline(): void {
+    if (this.outlineVisible) {
+      this.hideOutline();
+      return;
+    }
+    this.hideBacklinks();
+    this.body.add(this.outlinePane);
+    this.outlineVisible = true;
+    this.updateOutline();
+    this.outline.focus();
+  }
+
+  hideOutline(): void {
+    if (!this.outlineVisible) return;
+    this.body.remove(this.outlinePane.id);
+    this.outlineVisible = false;
+    this.scroll.focus();
+  }
+
+  get backlinksShown(): boolean {
+    return this.backlinksVisible;
+  }
+
+  toggleBacklinks(): void {
+    if (this.backlinksVisible) {
+      this.hideBacklinks();
+      return;
+    }
+    this.hideOutline();
+    this.body.add(this.backlinksPane);
+    this.backlinksVisible = true;
+    this.refreshBacklinks();
+    this.backlinksList.focus();
+  }
+
+  hideBacklinks(): void {
+    if (!this.backlinksVisible) return;
+    this.body.remove(this.backlinksPane.id);
+    this.backlinksVisible = false;
+    this.scroll.focus();
+  }
+
+  async refreshBacklinks(): Promise<void> {
+    if (!this.backlinksVisible || !this.loadBacklinks) return;
+    const file = this.currentFile;
+    const generation = ++this.backlinksGeneration;
+    this.backlinks = [];
+    this.backlinksList.options = [];
+    this.backlinksHeader.content = t`${bold("Backlinks")} ${fg(this.theme.muted)("loading...")}`;
+    if (!file) return;
+
+    let backlinks: Backlink[];
+    try {
+      backlinks = await this.loadBacklinks(file);
+    } catch (err) {
+      if (generation !== this.backlinksGeneration) return;
+      this.backlinksHeader.content = t`${bold("Backlinks")} ${fg(this.theme.error)(`${err}`)}`;
+      return;
+    }
+    if (generation !== this.backlinksGeneration) return;
+
+    this.backlinks = backlinks;
+    this.backlinksHeader.content = t`${bold("Backlinks")} ${fg(this.theme.muted)(`(${backlinks.length})`)}`;
+    this.backlinksList.options =
+      backlinks.length === 0
+        ? [{ name: "No backlinks", description: "", value: null }]
+        : backlinks.map((b) => ({
+            name: b.source.replace(/^qmd:\/\//, ""),
+            description: `${b.line + 1}: ${b.text}`,
+            value: b,
+          }));
+  }
+
+  private updateOutline(): void {
+    if (!this.outlineVisible) return;
+    if (this.headings.length === 0) {
+      this.outline.options = [{ name: "No headings", description: "", value: null }];
+      return;
+    }
+    this.outline.options = this.headings.map((h) => ({
+      name: `${"  ".repeat(h.level - 1)}${h.text}`,
+      description: "",
+      value: h.line,
+    }));
+    // Preselect the heading the document is currently scrolled to
+    const top = this.scroll.scrollTop;
+    let current = 0;
+    this.headings.forEach((h, i) => {
+      if (this.lineRow(h.line) <= top) current = i;
+    });
+    this.outline.setSelectedIndex(current);
+  }
+
+  nextHeading(): void {
+    const top = this.scroll.scrollTop;
+    const next = this.headings.findIndex((h) => this.lineRow(h.line) > top);
+    if (next >= 0) this.jumpToHeading(next);
+  }
+
+  prevHeading(): void {
+    const top = this.scroll.scrollTop;
+    const prev = this.headings.findLastIndex((h) => this.lineRow(h.line) < top);
+    if (prev >= 0) this.jumpToHeading(prev);
+    else this.scroll.scrollTo(0);
+  }
+
+  private jumpToHeading(index: number): void {
+    this.scrollToLine(this.headings[index]!.line);
+    if (this.outlineVisible && this.outline.getSelectedIndex() !== index) {
+      this.outline.setSelectedIndex(index);
+    }
+  }
+
+  /** Start line of every rendered top-level block, in document order. */
+  private blockLines(): BlockLine[] {
+    const content = this.contentMarkdown.content;
+    const result: BlockLine[] = [];
+    let cursor = 0;
+    let line = 0;
+    for (const state of this.contentMarkdown._blockStates) {
+      const at = content.indexOf(state.tokenRaw, cursor);
+      if (at >= 0) {
+        line = this.bodyLineOffset + countNewlines(content.slice(0, at));
+        cursor = at + state.tokenRaw.length;
+      }
+      result.push({ block: state.renderable, line });
+    }
+    return result;
+  }
+
+  /** Rendered row (relative to the scroll content top) of a source line. */
+  private lineRow(line: number): number {
+    const blocks = this.blockLines();
+    const containing = blocks.findLast((b) => b.line <= line);
+    if (!containing) return 0;
+    const offset = Math.min(line - containing.line, containing.block.height - 1);
+    return containing.block.y - this.scroll.content.y + Math.max(0, offset);
+  }
+
+  private scrollToLine(line: number, contextRows = 0): void {
+    this.scroll.scrollTo(Math.max(0, this.lineRow(line) - contextRows));
+  }
+
+  /**
+   * 0-based source line to open the document at elsewhere: the current
+   * match while it's in view, otherwise the line at the top of the viewport.
+   */
+  get visibleLine(): number {
+    const top = this.scroll.scrollTop;
+    const match = this.matches[this.currentMatch];
+    if (match) {
+      const row = this.matchRow(match);
+      if (row >= top && row < top + this.scroll.viewport.height) return match.line;
+    }
+    const blockRow = (b: BlockLine) => b.block.y - this.scroll.content.y;
+    const first = this.blockLines().findLast((b) => blockRow(b) <= top);
+    if (!first) return this.bodyLineOffset;
+    const offset = Math.min(top - blockRow(first), first.block.height - 1);
+    return first.line + Math.max(0, offset);
+  }
+
+  get finding(): boolean {
+    return this.findVisible;
+  }
+
+  openFind(): void {
+    if (!this.findVisible) {
+      this.container.add(this.findRow);
+      this.findVisible = true;
+    }
+    this.findInput.value = "";
+    this.renderFindStatus();
+    this.findInput.focus();
+  }
+
+  /** Hide the find bar. Keeps the highlights for n/N unless `clear` is set. */
+  closeFind(clear: boolean): void {
+    if (!this.findVisible) return;
+    this.container.remove(this.findRow.id);
+    this.findVisible = false;
+    if (clear) this.setHighlight(null);
+    this.scroll.focus();
+    this.onFindClose?.();
+  }
+
+  toggleFindRegex(): void {
+    this.findRegexMode = !this.findRegexMode;
+    this.applyFind(this.findInput.value);
+  }
+
+  private applyFind(value: string): void {
+    this.findError = null;
+    if (!value) {
+      this.setHighlight(null);
+      return;
+    }
+    // Smart case: case-sensitive only when the pattern has uppercase letters
+    const flags = /\p{Lu}/u.test(value) ? "gu" : "giu";
+    const source = this.findRegexMode
+      ? value
+      : escapeRegExp(value);
+    let regex: RegExp;
+    try {
+      regex = new RegExp(source, flags);
+    } catch {
+      this.findError = "invalid regex";
+      this.setHighlight(null);
+      return;
+    }
+    this.setHighlight(regex, { row: this.scroll.scrollTop });
+  }
+
+  private renderFindStatus(): void {
+    if (!this.findVisible) return;
+    const mode = this.findRegexMode
+      ? fg(this.theme.accent)("regex")
+      : fg(this.theme.muted)("literal");
+    let status: TextChunk;
+    if (this.findError) {
+      status = fg(this.theme.error)(this.findError);
+    } else if (!this.highlightRegex) {
+      status = fg(this.theme.muted)("");
+    } else if (this.matches.length === 0) {
+      status = fg(this.theme.warning)("no matches");
+    } else {
+      const pos = `${this.currentMatch + 1}/${this.matches.length}`;
+      status = fg(this.theme.success)(this.wrapped ? `${pos} (wrapped)` : pos);
+    }
+    this.findStatus.content = t`${mode} ${status}  ${fg(this.theme.muted)("^R: regex")}`;
   }
 
   getCurrentFile(): string | null {
@@ -86,42 +589,418 @@ export class DocumentView {
     return this.currentContent;
   }
 
-  async load(file: string, title: string): Promise<void> {
+  getCurrentSnippet(): string | null {
+    return this.currentSnippet;
+  }
+
+  /** The paragraph (run of non-blank source lines) at visibleLine, skipping frontmatter. */
+  getVisibleParagraph(): string | null {
+    if (this.currentContent === null) return null;
+    const lines = this.currentContent.split("\n");
+    const line = Math.min(Math.max(this.visibleLine, this.bodyLineOffset), lines.length - 1);
+    const blank = (i: number) => !lines[i]?.trim();
+    if (blank(line)) return lines.slice(line).find((l) => l.trim())?.trim() ?? null;
+    let start = line;
+    let end = line;
+    while (start > this.bodyLineOffset && !blank(start - 1)) start--;
+    while (end < lines.length - 1 && !blank(end + 1)) end++;
+    return lines.slice(start, end + 1).join("\n");
+  }
+
+  private renderHeader(): void {
+    const title = this.currentTitle ?? "";
+    const file = this.currentFile ?? "";
+    if (!this.highlightRegex) {
+      this.headerText.content = t`${bold(fg(this.theme.title)(title))} ${fg(this.theme.muted)(`(${file})`)}`;
+      this.renderFindStatus();
+      return;
+    }
+    const pos =
+      this.matches.length === 0
+        ? "no matches"
+        : `${this.currentMatch + 1}/${this.matches.length}`;
+    this.headerText.content = t`${bold(fg(this.theme.title)(title))} ${fg(this.theme.muted)(`(${file})`)} ${fg(this.theme.accent)(`[${pos}]`)}`;
+    this.renderFindStatus();
+  }
+
+  private renderMetadata(data: Frontmatter | null): void {
+    const entries = data
+      ? Object.entries(data).filter(
+          ([key, value]) => key !== "title" && formatFrontmatterValue(value) !== "",
+        )
+      : [];
+    if (!data || entries.length === 0) {
+      if (this.metaVisible) this.scroll.remove(this.metaBox.id);
+      this.metaVisible = false;
+      return;
+    }
+
+    const width = Math.min(16, Math.max(...entries.map(([key]) => key.length)));
+    const chunks: TextChunk[] = [];
+    entries.forEach(([key, value], i) => {
+      if (i > 0) chunks.push(fg(this.theme.foreground)("\n"));
+      chunks.push(fg(this.theme.muted)(`${key.padEnd(width)}  `));
+      if (key === "tags" || key === "tag") {
+        chunks.push(fg(this.theme.accent)(frontmatterTags(data).map((tag) => `#${tag}`).join(" ")));
+      } else {
+        chunks.push(fg(this.theme.foreground)(formatFrontmatterValue(value)));
+      }
+    });
+    this.metaText.content = new StyledText(chunks);
+    if (!this.metaVisible) this.scroll.add(this.metaBox, 1);
+    this.metaVisible = true;
+  }
+
+  private textBlocks(): TextRenderable[] {
+    // _blockStates is MarkdownRenderable's list of rendered top-level blocks
+    return this.contentMarkdown._blockStates
+      .map((state) => state.renderable)
+      .filter((r): r is TextRenderable => r instanceof TextRenderable);
+  }
+
+  private originalOf(block: TextRenderable): StyledText {
+    const entry = this.originals.get(block);
+    // If the markdown renderer replaced the content since we decorated it, that is the new original
+    if (entry && block.content === entry.shown) return entry.original;
+    return block.content;
+  }
+
+  private decorate(block: TextRenderable, current: number): void {
+    const original = this.originalOf(block);
+    const plain = original.chunks.map((c) => c.text).join("");
+    const ranges = this.highlightRegex
+      ? findMatchRanges(plain, this.highlightRegex)
+      : [];
+    let shown = highlightRanges(original, ranges, this.highlightColors, current);
+    const link = this.links[this.currentLink];
+    if (link?.block === block) {
+      shown = highlightRanges(shown, [[link.start, link.end]], this.linkColors, 0);
+    }
+    block.content = shown;
+    this.originals.set(block, { original, shown: block.content });
+  }
+
+  private applyHighlights(): void {
+    const current = this.matches[this.currentMatch];
+    for (const block of this.textBlocks()) {
+      this.decorate(block, current?.block === block ? current.range : -1);
+    }
+  }
+
+  private collectMatches(): void {
+    this.matches = [];
+    for (const { block, line: blockLine } of this.blockLines()) {
+      if (!(block instanceof TextRenderable) || !this.highlightRegex) continue;
+
+      const plain = this.originalOf(block).chunks.map((c) => c.text).join("");
+      findMatchRanges(plain, this.highlightRegex).forEach(([start], range) => {
+        const row = countNewlines(plain.slice(0, start));
+        this.matches.push({ block, range, row, line: blockLine + row });
+      });
+    }
+    if (this.currentMatch >= this.matches.length) {
+      this.currentMatch = this.matches.length - 1;
+    }
+  }
+
+  private matchRow(match: BlockMatch): number {
+    return match.block.y - this.scroll.content.y + match.row;
+  }
+
+  /**
+   * Highlight every match of `regex` (null clears). Once laid out, jumps to
+   * the first match at or after the given source line or rendered row.
+   */
+  setHighlight(
+    regex: RegExp | null,
+    from: { line: number } | { row: number } = { line: 0 },
+  ): void {
+    this.highlightRegex = regex;
+    this.matches = [];
+    this.currentMatch = -1;
+    this.wrapped = false;
+    this.applyHighlights();
+    this.renderHeader();
+    if (!regex) return;
+
+    afterLayout(() => {
+      if (this.highlightRegex !== regex) return;
+      this.collectMatches();
+      const first = this.matches.findIndex((m) =>
+        "line" in from ? m.line >= from.line : this.matchRow(m) >= from.row,
+      );
+      if (this.matches.length > 0) {
+        this.jumpToMatch(Math.max(first, 0));
+      } else {
+        this.applyHighlights();
+        this.renderHeader();
+      }
+    });
+  }
+
+  get matchCount(): number {
+    return this.matches.length;
+  }
+
+  nextMatch(): void {
+    if (this.matches.length === 0) return;
+    const next = (this.currentMatch + 1) % this.matches.length;
+    this.jumpToMatch(next, next <= this.currentMatch);
+  }
+
+  prevMatch(): void {
+    if (this.matches.length === 0) return;
+    const n = this.matches.length;
+    const prev = this.currentMatch < 0 ? n - 1 : (this.currentMatch - 1 + n) % n;
+    this.jumpToMatch(prev, prev >= this.currentMatch);
+  }
+
+  private jumpToMatch(index: number, wrapped = false): void {
+    this.currentMatch = index;
+    this.wrapped = wrapped;
+    this.applyHighlights();
+    this.renderHeader();
+    const match = this.matches[index];
+    if (!match) return;
+    this.scroll.scrollTo(Math.max(0, this.matchRow(match) - 3));
+  }
+
+  /** Find the openable links of every rendered text block, in document order. */
+  private collectLinks(): void {
+    this.links = [];
+    for (const block of this.textBlocks()) {
+      const chunks = this.originalOf(block).chunks;
+      const plain = chunks.map((c) => c.text).join("");
+      const found: BlockLink[] = [];
+      const add = (link: LinkRef, start: number, end: number) => {
+        if (found.some((l) => start < l.end && end > l.start)) return;
+        const row = countNewlines(plain.slice(0, start));
+        found.push({ ...link, block, start, end, row });
+      };
+
+      // Markdown links: consecutive chunks carrying the same URL (label and shown URL)
+      let offset = 0;
+      let span: { url: string; start: number; end: number } | null = null;
+      const flush = () => {
+        const kind = span && classifyLinkUrl(span.url);
+        if (span && kind) add({ kind, target: span.url }, span.start, span.end);
+        span = null;
+      };
+      for (const chunk of chunks) {
+        const url = chunk.link?.url;
+        if (url && span?.url === url && span.end === offset) {
+          span.end += chunk.text.length;
+        } else {
+          flush();
+          if (url) span = { url, start: offset, end: offset + chunk.text.length };
+        }
+        offset += chunk.text.length;
+      }
+      flush();
+
+      // qmd:// URIs and [[wikilinks]] are plain text to the markdown renderer
+      for (const m of plain.matchAll(QMD_URI_PATTERN)) {
+        add({ kind: "qmd", target: m[0] }, m.index!, m.index! + m[0].length);
+      }
+      for (const m of plain.matchAll(WIKILINK_PATTERN)) {
+        add({ kind: "wiki", target: m[1]! }, m.index!, m.index! + m[0].length);
+      }
+      this.links.push(...found.sort((a, b) => a.start - b.start));
+    }
+    if (this.currentLink >= this.links.length) this.currentLink = -1;
+  }
+
+  private linkRow(link: BlockLink): number {
+    return link.block.y - this.scroll.content.y + link.row;
+  }
+
+  /** Focus the next link (or the first one in view). */
+  nextLink(): void {
+    this.collectLinks();
+    if (this.links.length === 0) return;
+    const next =
+      this.currentLink >= 0
+        ? (this.currentLink + 1) % this.links.length
+        : Math.max(0, this.links.findIndex((l) => this.linkRow(l) >= this.scroll.scrollTop));
+    this.focusLink(next);
+  }
+
+  /** Focus the previous link (or the last one in view). */
+  prevLink(): void {
+    this.collectLinks();
+    const n = this.links.length;
+    if (n === 0) return;
+    const bottom = this.scroll.scrollTop + this.scroll.viewport.height;
+    const prev =
+      this.currentLink >= 0
+        ? (this.currentLink - 1 + n) % n
+        : this.links.findLastIndex((l) => this.linkRow(l) < bottom);
+    this.focusLink(prev >= 0 ? prev : n - 1);
+  }
+
+  private focusLink(index: number): void {
+    this.currentLink = index;
+    const link = this.links[index]!;
+    this.applyHighlights();
+
+    const row = this.linkRow(link);
+    const top = this.scroll.scrollTop;
+    if (row < top || row >= top + this.scroll.viewport.height) {
+      this.scroll.scrollTo(Math.max(0, row - 3));
+    }
+  }
+
+  get focusedLink(): LinkRef | null {
+    const link = this.links[this.currentLink];
+    return link ? { kind: link.kind, target: link.target } : null;
+  }
+
+  followLink(): void {
+    const link = this.focusedLink;
+    if (link) this.onFollowLink?.(link);
+  }
+
+  get canGoBack(): boolean {
+    return this.backStack.length > 0;
+  }
+
+  get canGoForward(): boolean {
+    return this.forwardStack.length > 0;
+  }
+
+  private historyEntry(): HistoryEntry | null {
+    if (!this.currentFile) return null;
+    return {
+      file: this.currentFile,
+      title: this.currentTitle ?? "",
+      scrollTop: this.scroll.scrollTop,
+    };
+  }
+
+  /** Open a linked document, remembering the current one for goBack(). */
+  async navigate(file: string, title: string, line?: number): Promise<void> {
+    const entry = this.historyEntry();
+    if (entry) this.backStack.push(entry);
+    this.forwardStack = [];
+    await this.open(file, title, { line });
+  }
+
+  async goBack(): Promise<boolean> {
+    const entry = this.backStack.pop();
+    if (!entry) return false;
+    const current = this.historyEntry();
+    if (current) this.forwardStack.push(current);
+    await this.open(entry.file, entry.title, { scrollTop: entry.scrollTop });
+    return true;
+  }
+
+  async goForward(): Promise<boolean> {
+    const entry = this.forwardStack.pop();
+    if (!entry) return false;
+    const current = this.historyEntry();
+    if (current) this.backStack.push(current);
+    await this.open(entry.file, entry.title, { scrollTop: entry.scrollTop });
+    return true;
+  }
+
+  /** Read the current document again (e.g. after editing it), keeping the scroll position. */
+  async reload(): Promise<void> {
+    const entry = this.historyEntry();
+    if (entry) await this.open(entry.file, entry.title, { scrollTop: entry.scrollTop });
+  }
+
+  /** Open a document fresh, e.g. from search or the file list. Resets back/forward history. */
+  async load(file: string, title: string, match?: DocumentMatch): Promise<void> {
+    this.backStack = [];
+    this.forwardStack = [];
+    await this.open(file, title, { match });
+  }
+
+  private async open(
+    file: string,
+    title: string,
+    { match, line, scrollTop }: OpenPosition = {},
+  ): Promise<void> {
+    const generation = ++this.openGeneration;
+    this.closeFind(false);
     this.currentFile = file;
     this.currentTitle = title;
     this.currentContent = null;
-    this.headerText.content = t`${bold(fg(this.theme.title)(title))} ${fg(this.theme.muted)(`(${file})`)}`;
+    this.currentSnippet = match ? snippetText(match.snippet) || null : null;
+    this.highlightRegex = null;
+    this.matches = [];
+    this.currentMatch = -1;
+    this.links = [];
+    this.currentLink = -1;
+    this.headings = [];
+    this.updateOutline();
+    this.refreshBacklinks();
+    this.renderHeader();
+    this.renderMetadata(null);
+    this.bodyLineOffset = 0;
     this.contentMarkdown.content = "*Loading...*";
 
     try {
       const text = await this.mcp.getDocument(file, { lineNumbers: false });
+      // Another document was opened (or the view cleared) meanwhile
+      if (generation !== this.openGeneration) return;
       this.currentContent = text;
 
-      // Extract title from frontmatter if available
-      const fmMatch = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
-      if (fmMatch) {
-        try {
-          const fm = YAML.parse(fmMatch[1]!) as Record<string, unknown>;
-          if (fm.title && typeof fm.title === "string") {
-            this.currentTitle = fm.title;
-            this.headerText.content = t`${bold(fg(this.theme.title)(fm.title))} ${fg(this.theme.muted)(`(${file})`)}`;
-          }
-        } catch {}
+      // Title and metadata come from the frontmatter; only the body is rendered as markdown
+      const frontmatter = splitFrontmatter(text);
+      const fm = frontmatter.data;
+      if (fm?.title && typeof fm.title === "string") {
+        this.currentTitle = fm.title;
+        this.renderHeader();
       }
+      this.renderMetadata(fm);
+      this.bodyLineOffset = frontmatter.data ? frontmatter.lines : 0;
+
+      this.contentMarkdown.content = frontmatter.data ? frontmatter.body : text;
+      this.scroll.scrollTo(0);
+      this.headings = parseHeadings(text);
+      this.updateOutline();
 
-      this.contentMarkdown.content = text;
-      this.container.scrollTo(0);
+      if (match) {
+        const snippetLine = Math.max(0, findSnippetLine(text, match.snippet));
+        const regex = queryTermsRegex(match.query, match.mode);
+        if (regex) {
+          this.setHighlight(regex, { line: snippetLine });
+        } else if (snippetLine > 0) {
+          afterLayout(() => this.scrollToLine(snippetLine, 2));
+        }
+      } else if (line !== undefined) {
+        afterLayout(() => this.scrollToLine(line, 2));
+      } else if (scrollTop) {
+        afterLayout(() => this.scroll.scrollTo(scrollTop));
+      }
     } catch (err) {
+      if (generation !== this.openGeneration) return;
       this.contentMarkdown.content = `**Error:** ${err}`;
     }
   }
 
   clear(): void {
+    this.openGeneration++;
     this.currentFile = null;
     this.currentTitle = null;
     this.currentContent = null;
+    this.currentSnippet = null;
+    this.highlightRegex = null;
+    this.matches = [];
+    this.currentMatch = -1;
     this.headerText.content = "";
+    this.renderMetadata(null);
+    this.bodyLineOffset = 0;
     this.contentMarkdown.content = "";
-    this.container.scrollTo(0);
+    this.headings = [];
+    this.links = [];
+    this.currentLink = -1;
+    this.backStack = [];
+    this.forwardStack = [];
+    this.hideOutline();
+    this.hideBacklinks();
+    this.closeFind(false);
+    this.scroll.scrollTo(0);
   }
 }
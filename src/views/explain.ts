@@ -0,0 +1,122 @@
+import { StyledText, bold, fg, type TextChunk } from "@opentui/core";
+import type { SearchResult } from "../mcp-client.ts";
+import type { Theme } from "../theme.ts";
+
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+
+function isObject(value: Json): value is { [key: string]: Json } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFlat(value: Json): boolean {
+  return isObject(value) && Object.values(value).every((v) => !isObject(v) && !Array.isArray(v));
+}
+
+/** "rerankScore" → "rerank score" */
+function humanize(key: string): string {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/_/g, " ")
+    .toLowerCase();
+}
+
+function formatValue(value: Json): string {
+  if (typeof value === "number") return Number.isInteger(value) ? String(value) : value.toFixed(4);
+  if (typeof value === "string") return value.replace(/\s+/g, " ");
+  return String(value);
+}
+
+/**
+ * The query variants qmd searched with (the original query plus its
+ * expansions), from any object in the tree that carries a `query` string.
+ */
+function queryVariants(explain: Json): { type: string; query: string }[] {
+  const seen = new Map<string, { type: string; query: string }>();
+  const visit = (value: Json) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (isObject(value)) {
+      if (typeof value.query === "string" && value.query.trim()) {
+        const type = [value.queryType, value.type, value.source].find(
+          (v): v is string => typeof v === "string",
+        );
+        const variant = { type: type ?? "", query: value.query.trim() };
+        seen.set(`${variant.type}\n${variant.query}`, variant);
+      }
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(explain);
+  return [...seen.values()];
+}
+
+/**
+ * The full score breakdown of a search result: the scores, the query
+ * variants, then the rest of qmd's explain data as an indented tree.
+ * qmd's explain format differs between versions and modes, so the tree is
+ * rendered from its structure; arrays of flat objects (per-variant ranks,
+ * RRF contributions) get one line per entry.
+ */
+export function formatExplain(result: SearchResult, theme: Theme): StyledText {
+  const muted = fg(theme.muted);
+  const label = fg(theme.accent);
+  const value = fg(theme.foreground);
+  const chunks: TextChunk[] = [
+    bold(fg(theme.title)(result.title || result.file)),
+    muted(`  ${result.docid}\n${result.file}\n`),
+  ];
+  const section = (title: string) => chunks.push(bold(fg(theme.heading)(`\n${title}\n`)));
+  const line = (depth: number, key: string, text?: string) => {
+    chunks.push(muted("  ".repeat(depth)), label(key));
+    if (text !== undefined) chunks.push(value(`  ${text}`));
+    chunks.push(muted("\n"));
+  };
+
+  const explain = (result.explain ?? {}) as { [key: string]: Json };
+  const entries = Object.entries(explain);
+
+  section("Scores");
+  line(1, "score", formatValue(result.score));
+  for (const [key, v] of entries) {
+    if (typeof v === "number") line(1, humanize(key), formatValue(v));
+  }
+
+  const variants = queryVariants(explain);
+  if (variants.length > 0) {
+    section("Query variants");
+    for (const { type, query } of variants) line(1, type || "query", query);
+  }
+
+  const render = (depth: number, key: string, v: Json) => {
+    if (Array.isArray(v)) {
+      if (v.every((item) => !isObject(item) && !Array.isArray(item))) {
+        line(depth, key, v.map(formatValue).join(", "));
+      } else {
+        line(depth, key);
+        for (const item of v) {
+          if (isFlat(item)) {
+            const pairs = Object.entries(item as { [key: string]: Json })
+              .map(([k, x]) => `${humanize(k)}=${formatValue(x)}`)
+              .join("  ");
+            chunks.push(muted(`${"  ".repeat(depth + 1)}- `), value(pairs), muted("\n"));
+          } else {
+            chunks.push(muted(`${"  ".repeat(depth + 1)}-\n`));
+            render(depth + 2, "", item);
+          }
+        }
+      }
+    } else if (isObject(v)) {
+      if (key) line(depth, key);
+      for (const [k, x] of Object.entries(v)) render(key ? depth + 1 : depth, humanize(k), x);
+    } else {
+      line(depth, key, formatValue(v));
+    }
+  };
+
+  const rest = entries.filter(([, v]) => typeof v !== "number");
+  if (rest.length > 0) {
+    section("Details");
+    for (const [key, v] of rest) render(1, humanize(key), v);
+  }
+  return new StyledText(chunks);
+}
@@ -12,10 +12,25 @@ import {
   bold,
 } from "@opentui/core";
 import { listFiles, type FileEntry } from "../qmd-cli.ts";
+import {
+  matchesFilters,
+  parseFieldFilters,
+  type Frontmatter,
+} from "../frontmatter.ts";
 import type { Theme } from "../theme.ts";
 
 export type FileOpenHandler = (file: string, title: string) => void;
 
+// Pause in typing before @field:value filters read frontmatter
+const FILTER_DEBOUNCE_MS = 200;
+// Files whose frontmatter is read between checks for a newer filter
+const FRONTMATTER_BATCH = 100;
+
+// Files are titled by their name; the document view picks up frontmatter titles
+function fileTitle(path: string): string {
+  return path.split("/").pop() ?? path;
+}
+
 function fuzzyMatch(query: string, text: string): boolean {
   const lower = text.toLowerCase();
   const q = query.toLowerCase();
@@ -34,6 +49,16 @@ export class FilesView {
   private onFileOpen: FileOpenHandler | null = null;
   private collectionName = "";
   private allFiles: FileEntry[] = [];
+  // Files passing the filter, as listed
+  private shownFiles: FileEntry[] = [];
+  // URIs of marked files
+  private marked = new Set<string>();
+  private filterGeneration = 0;
+  private filterTimer: ReturnType<typeof setTimeout> | null = null;
+
+  loadFrontmatter:
+    | ((uris: string[]) => Promise<Map<string, Frontmatter | null>>)
+    | null = null;
 
   constructor(private ctx: RenderContext, private theme: Theme) {
     this.container = new BoxRenderable(ctx, {
@@ -57,7 +82,7 @@ export class FilesView {
     this.input = new InputRenderable(ctx, {
       id: "files-filter",
       width: 40,
-      placeholder: "Type to filter...",
+      placeholder: "Type to filter, @tag:x @status:y...",
     });
 
     inputRow.add(label);
@@ -86,15 +111,16 @@ export class FilesView {
     this.container.add(this.filesList);
 
     this.input.on(InputRenderableEvents.INPUT, () => {
-      this.applyFilter();
+      this.scheduleFilter();
     });
 
     this.filesList.on(
       SelectRenderableEvents.ITEM_SELECTED,
       (_index: number, option: SelectOption) => {
         if (this.onFileOpen && option.value) {
-          const title = option.name.split("/").pop() ?? option.name;
-          this.onFileOpen(option.value, title);
+          const file = this.shownFiles.find((f) => f.uri === option.value);
+          const path = file?.path ?? option.name;
+          this.onFileOpen(option.value, fileTitle(path));
         }
       },
     );
@@ -105,11 +131,14 @@ export class FilesView {
   }
 
   async load(collectionName: string): Promise<void> {
+    this.cancelFilter();
     this.collectionName = collectionName;
     this.input.value = "";
     this.statusText.content = t`${fg(this.theme.muted)("Loading files...")}`;
     this.filesList.options = [];
     this.allFiles = [];
+    this.shownFiles = [];
+    this.marked.clear();
 
     try {
       this.allFiles = await listFiles(collectionName);
@@ -125,23 +154,115 @@ export class FilesView {
     }
   }
 
-  private applyFilter(): void {
-    const query = this.input.value.trim();
-    const filtered = query
+  /**
+   * Filter on each keystroke. Fuzzy matching is instant; frontmatter
+   * filters read files, so they wait for a pause in typing.
+   */
+  private scheduleFilter(): void {
+    this.cancelFilter();
+    if (parseFieldFilters(this.input.value).filters.length === 0) {
+      this.applyFilter();
+      return;
+    }
+    this.filterTimer = setTimeout(() => {
+      this.filterTimer = null;
+      this.applyFilter();
+    }, FILTER_DEBOUNCE_MS);
+  }
+
+  /** Drop a pending filter and stop one that is reading frontmatter. */
+  private cancelFilter(): void {
+    this.filterGeneration++;
+    if (this.filterTimer) {
+      clearTimeout(this.filterTimer);
+      this.filterTimer = null;
+    }
+  }
+
+  private async applyFilter(): Promise<void> {
+    const generation = ++this.filterGeneration;
+    const input = this.input.value.trim();
+    const { text: query, filters } = parseFieldFilters(input);
+    let filtered = query
       ? this.allFiles.filter((f) => fuzzyMatch(query, f.path))
       : this.allFiles;
 
-    this.statusText.content = query
+    // @field:value filters match against each file's frontmatter
+    if (filters.length > 0 && this.loadFrontmatter) {
+      const frontmatter = new Map<string, Frontmatter | null>();
+      // In batches, so a newer filter stops this one early
+      for (let i = 0; i < filtered.length; i += FRONTMATTER_BATCH) {
+        this.statusText.content = t`${fg(this.theme.muted)(`Reading frontmatter... ${i}/${filtered.length}`)}`;
+        const batch = filtered.slice(i, i + FRONTMATTER_BATCH).map((f) => f.uri);
+        const loaded = await this.loadFrontmatter(batch);
+        if (generation !== this.filterGeneration) return;
+        for (const [uri, data] of loaded) frontmatter.set(uri, data);
+      }
+      filtered = filtered.filter((f) =>
+        matchesFilters(frontmatter.get(f.uri) ?? null, filters),
+      );
+    }
+
+    this.statusText.content = input
       ? t`${fg(this.theme.success)(`${filtered.length}/${this.allFiles.length} files`)}`
       : t`${fg(this.theme.success)(`${this.allFiles.length} files`)}`;
 
-    this.filesList.options = filtered.map((f) => ({
-      name: f.path,
+    this.shownFiles = filtered;
+    this.renderList();
+  }
+
+  private renderList(): void {
+    this.filesList.options = this.shownFiles.map((f) => ({
+      name: `${this.marked.has(f.uri) ? "● " : ""}${f.path}`,
       description: `${f.size}  ${f.date}`,
       value: f.uri,
     }));
   }
 
+  /** Mark or unmark the highlighted file and move on to the next one. */
+  toggleMark(): void {
+    const file = this.shownFiles[this.filesList.getSelectedIndex()];
+    if (!file) return;
+    if (!this.marked.delete(file.uri)) this.marked.add(file.uri);
+    this.renderList();
+    this.filesList.moveDown();
+  }
+
+  /** Mark all files passing the filter, or unmark them if they're all marked already. */
+  toggleMarkAll(): void {
+    const all = this.shownFiles.every((f) => this.marked.has(f.uri));
+    for (const f of this.shownFiles) {
+      if (all) this.marked.delete(f.uri);
+      else this.marked.add(f.uri);
+    }
+    this.renderList();
+  }
+
+  get markedCount(): number {
+    return this.marked.size;
+  }
+
+  /** Marked files (also those hidden by the filter), or else the highlighted one. */
+  getTargetFiles(): string[] {
+    return this.getTargetItems().map((f) => f.file);
+  }
+
+  /** Like getTargetFiles(), with the titles the list shows. */
+  getTargetItems(): { file: string; title: string }[] {
+    let entries = this.allFiles.filter((f) => this.marked.has(f.uri));
+    if (entries.length === 0) {
+      const file = this.shownFiles[this.filesList.getSelectedIndex()];
+      entries = file ? [file] : [];
+    }
+    return entries.map((f) => ({ file: f.uri, title: fileTitle(f.path) }));
+  }
+
+  showStatus(message: string, error = false): void {
+    this.statusText.content = error
+      ? t`${fg(this.theme.error)(message)}`
+      : t`${fg(this.theme.muted)(message)}`;
+  }
+
   focusInput(): void {
     this.input.focus();
   }
@@ -151,10 +272,13 @@ export class FilesView {
   }
 
   clear(): void {
+    this.filterGeneration++;
     this.filesList.options = [];
     this.statusText.content = "";
     this.collectionName = "";
     this.allFiles = [];
+    this.shownFiles = [];
+    this.marked.clear();
     this.input.value = "";
   }
 }
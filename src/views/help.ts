@@ -0,0 +1,83 @@
+import {
+  BoxRenderable,
+  ScrollBoxRenderable,
+  StyledText,
+  TextRenderable,
+  type RenderContext,
+  type TextChunk,
+  bold,
+  fg,
+} from "@opentui/core";
+import type { Theme } from "../theme.ts";
+import { ACTIONS, CONTEXT_TITLES, type Keymap } from "../keymap.ts";
+
+/** Overlay listing every action with its current key bindings. */
+export class HelpView {
+  readonly container: BoxRenderable;
+  private scroll: ScrollBoxRenderable;
+  private text: TextRenderable;
+
+  constructor(
+    private ctx: RenderContext,
+    private theme: Theme,
+    private keymap: Keymap,
+  ) {
+    this.container = new BoxRenderable(ctx, {
+      id: "help-overlay",
+      position: "absolute",
+      top: 2,
+      left: "15%" as any,
+      width: "70%" as any,
+      height: "80%" as any,
+      zIndex: 100,
+      border: true,
+      borderStyle: "rounded",
+      borderColor: theme.border_active,
+      backgroundColor: theme.background,
+      title: "Key Bindings (Esc to close)",
+      titleAlignment: "left",
+      flexDirection: "column",
+    });
+
+    this.scroll = new ScrollBoxRenderable(ctx, {
+      id: "help-scroll",
+      rootOptions: { flexGrow: 1 },
+      contentOptions: { flexDirection: "column", padding: 1 },
+    });
+    this.text = new TextRenderable(ctx, {
+      id: "help-text",
+      content: "",
+    });
+    this.scroll.add(this.text);
+    this.container.add(this.scroll);
+  }
+
+  /** Rebuild the listing from the keymap. */
+  render(): void {
+    const rows = ACTIONS.map((action) => ({
+      title: CONTEXT_TITLES[action.context],
+      keys: this.keymap.keyLabels(action.id).join(", "),
+      description: action.description,
+    }));
+    const width = Math.max(...rows.map((r) => r.keys.length)) + 2;
+
+    const chunks: TextChunk[] = [];
+    let title = "";
+    for (const row of rows) {
+      if (row.title !== title) {
+        if (title) chunks.push(fg(this.theme.foreground)("\n"));
+        title = row.title;
+        chunks.push(bold(fg(this.theme.accent)(`${title}\n`)));
+      }
+      const keys = row.keys || "—";
+      chunks.push(bold(fg(row.keys ? this.theme.foreground : this.theme.muted)(`  ${keys.padEnd(width)}`)));
+      chunks.push(fg(this.theme.muted)(`${row.description}\n`));
+    }
+    this.text.content = new StyledText(chunks);
+    this.scroll.scrollTo(0);
+  }
+
+  scrollBy(rows: number): void {
+    this.scroll.scrollTo(Math.max(0, this.scroll.scrollTop + rows));
+  }
+}
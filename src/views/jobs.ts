@@ -0,0 +1,186 @@
+import {
+  BoxRenderable,
+  ScrollBoxRenderable,
+  SelectRenderable,
+  SelectRenderableEvents,
+  StyledText,
+  TextRenderable,
+  type RenderContext,
+  type TextChunk,
+  bold,
+  fg,
+} from "@opentui/core";
+import { jobCommand, type Job } from "../jobs.ts";
+import type { Theme } from "../theme.ts";
+
+const BAR_WIDTH = 20;
+
+/** "42s", "3m05s", "1h12m" */
+export function formatDuration(ms: number): string {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m${String(s % 60).padStart(2, "0")}s`;
+  return `${Math.floor(s / 3600)}h${String(Math.floor((s % 3600) / 60)).padStart(2, "0")}m`;
+}
+
+/** "42%" or "" when the job's progress is unknown. */
+export function progressLabel(job: Job): string {
+  const fraction = job.progress?.fraction;
+  return fraction == null ? "" : `${Math.floor(fraction * 100)}%`;
+}
+
+function statusLabel(job: Job, now: number): string {
+  switch (job.status) {
+    case "queued":
+      return "queued";
+    case "running": {
+      const elapsed = formatDuration(now - job.startedAt!);
+      const progress = progressLabel(job);
+      return progress ? `running ${progress}, ${elapsed}` : `running ${elapsed}`;
+    }
+    case "done":
+    case "failed":
+      return `${job.status} (exit ${job.exitCode ?? "?"}) in ${formatDuration(job.finishedAt! - job.startedAt!)}`;
+    case "cancelled":
+      return "cancelled";
+  }
+}
+
+/** Running, queued and past qmd maintenance jobs with the output of the selected one. */
+export class JobsView {
+  readonly container: BoxRenderable;
+  readonly list: SelectRenderable;
+  private summaryText: TextRenderable;
+  private output: ScrollBoxRenderable;
+  private outputText: TextRenderable;
+  private jobs: Job[] = [];
+  private shownJob: number | null = null;
+
+  constructor(private ctx: RenderContext, private theme: Theme) {
+    this.container = new BoxRenderable(ctx, {
+      id: "jobs-container",
+      flexDirection: "column",
+      flexGrow: 1,
+    });
+
+    this.list = new SelectRenderable(ctx, {
+      id: "jobs-list",
+      height: 10,
+      options: [],
+      showDescription: true,
+      showScrollIndicator: true,
+      wrapSelection: true,
+
+      selectedBackgroundColor: theme.selection_bg,
+      selectedTextColor: theme.selection_fg,
+      selectedDescriptionColor: theme.selection_desc,
+    });
+    this.container.add(this.list);
+
+    this.summaryText = new TextRenderable(ctx, {
+      id: "jobs-summary",
+      content: "",
+      paddingLeft: 1,
+      paddingRight: 1,
+    });
+    this.container.add(this.summaryText);
+
+    this.output = new ScrollBoxRenderable(ctx, {
+      id: "jobs-output",
+      rootOptions: {
+        flexGrow: 1,
+        border: ["top"],
+        borderColor: theme.border_inactive,
+      },
+      contentOptions: {
+        flexDirection: "column",
+        paddingLeft: 1,
+        paddingRight: 1,
+      },
+      stickyScroll: true,
+      stickyStart: "bottom",
+    });
+    this.outputText = new TextRenderable(ctx, {
+      id: "jobs-output-text",
+      content: "",
+    });
+    this.output.add(this.outputText);
+    this.container.add(this.output);
+
+    this.list.on(SelectRenderableEvents.SELECTION_CHANGED, () => {
+      this.renderSelected();
+    });
+  }
+
+  /** The highlighted job. */
+  get selected(): Job | null {
+    const id = this.list.getSelectedOption()?.value;
+    return this.jobs.find((j) => j.id === id) ?? null;
+  }
+
+  focus(): void {
+    this.list.focus();
+  }
+
+  /** Refresh from the job manager, keeping the highlighted job. */
+  update(jobs: Job[]): void {
+    const selectedId = this.selected?.id;
+    this.jobs = jobs;
+    const now = Date.now();
+    this.list.options = jobs.map((job) => ({
+      name: `#${job.id}  ${jobCommand(job)}  ${statusLabel(job, now)}`,
+      description: job.progress?.text ?? job.output.at(-1) ?? "",
+      value: job.id,
+    }));
+    const index = jobs.findIndex((j) => j.id === selectedId);
+    if (index >= 0) this.list.setSelectedIndex(index);
+    this.renderSelected();
+  }
+
+  private renderSelected(): void {
+    const job = this.selected;
+    if (!job) {
+      this.summaryText.content = new StyledText([
+        fg(this.theme.muted)("No jobs yet. Update, embed and cleanup run here."),
+      ]);
+      this.outputText.content = "";
+      this.shownJob = null;
+      return;
+    }
+
+    const chunks: TextChunk[] = [bold(fg(this.theme.accent)(jobCommand(job)))];
+    const color =
+      job.status === "failed"
+        ? this.theme.error
+        : job.status === "done"
+          ? this.theme.success
+          : job.status === "cancelled"
+            ? this.theme.warning
+            : this.theme.foreground;
+    chunks.push(fg(color)(`  ${statusLabel(job, Date.now())}`));
+
+    const fraction = job.progress?.fraction;
+    if (job.status === "running" && fraction != null) {
+      const filled = Math.round(fraction * BAR_WIDTH);
+      chunks.push(
+        fg(this.theme.accent)(`  ${"█".repeat(filled)}`),
+        fg(this.theme.muted)("░".repeat(BAR_WIDTH - filled)),
+      );
+    }
+    if (job.status === "running" && job.lastOutputAt) {
+      chunks.push(
+        fg(this.theme.muted)(`  last output ${formatDuration(Date.now() - job.lastOutputAt)} ago`),
+      );
+    }
+    this.summaryText.content = new StyledText(chunks);
+
+    this.outputText.content = job.output.length
+      ? job.output.join("\n")
+      : new StyledText([fg(this.theme.muted)(job.status === "queued" ? "Waiting..." : "(no output)")]);
+    // Start a newly selected job's output at the end
+    if (this.shownJob !== job.id) {
+      this.shownJob = job.id;
+      this.output.scrollTo(this.output.scrollHeight);
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+import { findMatchRanges, parseHeadings, queryTermsRegex } from "./markdown.ts";
+
+describe("parseHeadings", () => {
+  test("ATX and setext headings with their line numbers", () => {
+    const doc = "# Title\n\nIntro\n\nSection\n-------\n\n### Deep ###\n\nOther\n=====";
+    expect(parseHeadings(doc)).toEqual([
+      { level: 1, text: "Title", line: 0 },
+      { level: 2, text: "Section", line: 4 },
+      { level: 3, text: "Deep", line: 7 },
+      { level: 1, text: "Other", line: 9 },
+    ]);
+  });
+
+  test("skips frontmatter", () => {
+    expect(parseHeadings("---\ntitle: x\n---\n# Body")).toEqual([
+      { level: 1, text: "Body", line: 3 },
+    ]);
+  });
+
+  test("a fence with an info string doesn't close a code block", () => {
+    expect(parseHeadings("```\ncode\n```js\n## NotHeading\n```\n## After")).toEqual([
+      { level: 2, text: "After", line: 5 },
+    ]);
+  });
+
+  test("a closing fence must use the same character and be at least as long", () => {
+    expect(parseHeadings("````\n```\n# In\n~~~~\n````\n# Out")).toEqual([
+      { level: 1, text: "Out", line: 5 },
+    ]);
+  });
+
+  test("a rule right after a code block isn't a setext heading", () => {
+    expect(parseHeadings("```\ncode\n```\n---\n# Next")).toEqual([
+      { level: 1, text: "Next", line: 4 },
+    ]);
+  });
+
+  test("skips headings without text", () => {
+    expect(parseHeadings("#\n\n**\n--")).toEqual([]);
+  });
+});
+
+describe("queryTermsRegex", () => {
+  const matches = (regex: RegExp | null, text: string) =>
+    regex ? findMatchRanges(text, regex).map(([start, end]) => text.slice(start, end)) : [];
+
+  test("plain query terms at word starts, without negated terms", () => {
+    const regex = queryTermsRegex('deploy "index" -draft');
+    expect(matches(regex, "Deploying the indexes, a draft")).toEqual(["Deploy", "index"]);
+  });
+
+  test("only the lex: lines of a structured query", () => {
+    const regex = queryTermsRegex("lex: kubernetes rollout\nvec: how do we ship a release\nhyde: we do it often");
+    expect(matches(regex, "we do a kubernetes rollout")).toEqual(["kubernetes", "rollout"]);
+    expect(queryTermsRegex("vec: how do we ship")).toBeNull();
+  });
+
+  test("vector search drops stopwords", () => {
+    const regex = queryTermsRegex("how do we ship a release", "vsearch");
+    expect(matches(regex, "how we ship the release")).toEqual(["ship", "release"]);
+  });
+});
@@ -0,0 +1,262 @@
+import {
+  StyledText,
+  SyntaxStyle,
+  parseColor,
+  type RGBA,
+  type ScrollBoxRenderable,
+  type TextChunk,
+} from "@opentui/core";
+import type { Theme } from "../theme.ts";
+import type { SearchMode } from "./search.ts";
+
+export function createMarkdownStyle(theme: Theme): SyntaxStyle {
+  return SyntaxStyle.fromStyles({
+    default: { fg: parseColor(theme.foreground) },
+    "markup.heading": { fg: parseColor(theme.heading), bold: true },
+    "markup.heading.1": { fg: parseColor(theme.heading), bold: true },
+    "markup.heading.2": { fg: parseColor(theme.heading), bold: true },
+    "markup.heading.3": { fg: parseColor(theme.heading), bold: true },
+    "markup.heading.4": { fg: parseColor(theme.heading), bold: true },
+    "markup.strong": { fg: parseColor(theme.strong), bold: true },
+    "markup.italic": { fg: parseColor(theme.italic), italic: true },
+    "markup.raw": { fg: parseColor(theme.code) },
+    "markup.strikethrough": { dim: true },
+    "markup.link.label": { fg: parseColor(theme.link), underline: true },
+    "markup.link.url": { fg: parseColor(theme.link_url) },
+    "markup.link": { fg: parseColor(theme.muted) },
+    "markup.list": { fg: parseColor(theme.list) },
+    "punctuation.special": { fg: parseColor(theme.muted) },
+    conceal: { fg: parseColor(theme.muted) },
+  });
+}
+
+/**
+ * Find the 0-based source line a qmd snippet points at. Uses the
+ * "@@ -N,M @@" header when present, otherwise the first snippet line
+ * found verbatim in the document. Returns -1 if nothing matches.
+ */
+export function findSnippetLine(content: string, snippet: string): number {
+  const header = snippet.match(/^@@ -(\d+)/);
+  if (header) return Math.max(0, parseInt(header[1]!, 10) - 1);
+
+  const lines = content.split("\n");
+  const needles = snippet
+    .split("\n")
+    .map((l) => l.trim())
+    .filter((l) => l.length > 3 && !l.startsWith("@@"));
+  for (const needle of needles) {
+    const idx = lines.findIndex((l) => l.includes(needle));
+    if (idx >= 0) return idx;
+  }
+  return -1;
+}
+
+/** Snippet text without qmd's "@@ -N,M @@" position header. */
+export function snippetText(snippet: string): string {
+  return snippet
+    .split("\n")
+    .filter((line) => !line.startsWith("@@"))
+    .join("\n")
+    .trim();
+}
+
+/** Run `fn` once the renderer has laid out freshly set markdown content. */
+export function afterLayout(fn: () => void): void {
+  setTimeout(fn, 50);
+}
+
+/**
+ * Scroll a markdown ScrollBox so the given source line is near the top.
+ * Rendered rows don't map 1:1 to source lines (wrapping, concealed
+ * markup), so the row is scaled by rendered height / source lines.
+ */
+export function scrollToSourceLine(
+  scroll: ScrollBoxRenderable,
+  line: number,
+  totalLines: number,
+  contextRows = 2,
+): void {
+  afterLayout(() => {
+    if (totalLines <= 0) return;
+    const ratio = Math.max(1, scroll.scrollHeight / totalLines);
+    scroll.scrollTo(Math.max(0, Math.round(line * ratio) - contextRows));
+  });
+}
+
+export function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Words not worth highlighting in a vector search, where no term has to occur
+const STOPWORDS = new Set(
+  ("a an and are as at be by can do does for from has have how i if in is it its " +
+    "my not of on or our so that the their there this to was we what when where which " +
+    "who why will with you your").split(" "),
+);
+
+/**
+ * Build a case-insensitive regex for the lexical terms of a search query.
+ * Of a structured query only the lex: lines count (vec:, hyde:, ... describe
+ * meaning, not words to find); a plain query in vector mode drops stopwords.
+ * Quotes and negated terms are dropped; terms match at word starts so
+ * stemmed hits ("index" → "indexing") are highlighted too. Returns null if
+ * no usable term remains.
+ */
+export function queryTermsRegex(query: string, mode: SearchMode = "search"): RegExp | null {
+  const structured = /^\s*(lex|vec|hyde|expand|intent):/m.test(query);
+  const terms = new Set<string>();
+  for (const line of query.split("\n")) {
+    let text = line;
+    if (structured) {
+      const lex = line.match(/^\s*lex:(.*)$/);
+      if (!lex) continue;
+      text = lex[1]!;
+    }
+    for (const raw of text.split(/\s+/)) {
+      if (raw.startsWith("-")) continue;
+      const term = raw.replace(/^["'(]+|["'),.;:!?]+$/g, "").toLowerCase();
+      if (term.length < 2) continue;
+      if (!structured && mode === "vsearch" && STOPWORDS.has(term)) continue;
+      terms.add(term);
+    }
+  }
+  if (terms.size === 0) return null;
+  const alternatives = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|");
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives})`, "giu");
+}
+
+/** Character ranges [start, end) of all non-empty matches of `regex` in `text`. */
+export function findMatchRanges(text: string, regex: RegExp): [number, number][] {
+  const ranges: [number, number][] = [];
+  const re = new RegExp(regex.source, regex.flags.includes("g") ? regex.flags : regex.flags + "g");
+  for (const m of text.matchAll(re)) {
+    if (m[0].length === 0) continue;
+    ranges.push([m.index!, m.index! + m[0].length]);
+  }
+  return ranges;
+}
+
+export type HighlightColors = {
+  fg: RGBA;
+  bg: RGBA;
+  currentFg: RGBA;
+  currentBg: RGBA;
+};
+
+/**
+ * Return a copy of `text` with the given ranges restyled. The range at
+ * index `current` (if any) uses the "current match" colors.
+ */
+export function highlightRanges(
+  text: StyledText,
+  ranges: [number, number][],
+  colors: HighlightColors,
+  current = -1,
+): StyledText {
+  if (ranges.length === 0) return text;
+
+  const chunks: TextChunk[] = [];
+  let offset = 0;
+  let r = 0;
+  for (const chunk of text.chunks) {
+    const chunkEnd = offset + chunk.text.length;
+    let pos = offset;
+    while (pos < chunkEnd) {
+      while (r < ranges.length && ranges[r]![1] <= pos) r++;
+      const range = ranges[r];
+      if (!range || range[0] >= chunkEnd) {
+        chunks.push({ ...chunk, text: chunk.text.slice(pos - offset) });
+        break;
+      }
+      if (range[0] > pos) {
+        chunks.push({ ...chunk, text: chunk.text.slice(pos - offset, range[0] - offset) });
+        pos = range[0];
+      }
+      const end = Math.min(range[1], chunkEnd);
+      const isCurrent = r === current;
+      chunks.push({
+        ...chunk,
+        text: chunk.text.slice(pos - offset, end - offset),
+        fg: isCurrent ? colors.currentFg : colors.fg,
+        bg: isCurrent ? colors.currentBg : colors.bg,
+      });
+      pos = end;
+    }
+    offset = chunkEnd;
+  }
+  return new StyledText(chunks);
+}
+
+export type Heading = {
+  level: number;
+  text: string;
+  /** 0-based source line of the heading text. */
+  line: number;
+};
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`~]+/g, "")
+    .trim();
+}
+
+/**
+ * Collect the ATX (`## Title`) and setext (`Title` / `===`) headings of a
+ * markdown document, skipping frontmatter and fenced code blocks.
+ */
+export function parseHeadings(content: string): Heading[] {
+  const lines = content.split("\n");
+  const headings: Heading[] = [];
+  let i = 0;
+
+  const fm = content.match(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/);
+  if (fm) i = fm[0].split("\n").length - 1;
+
+  let fence: string | null = null;
+  // Last line of a code block (fence or content); it can't be setext text
+  let codeLine = -1;
+  for (; i < lines.length; i++) {
+    const line = lines[i]!.replace(/\r$/, "");
+
+    if (fence) {
+      codeLine = i;
+      // Closing fences take no info string: "```js" inside a block is code
+      const close = line.match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+      if (close && close[1]![0] === fence[0] && close[1]!.length >= fence.length) fence = null;
+      continue;
+    }
+    const open = line.match(/^ {0,3}(`{3,}|~{3,})/);
+    if (open) {
+      fence = open[1]!;
+      codeLine = i;
+      continue;
+    }
+
+    const atx = line.match(/^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/);
+    if (atx) {
+      const text = stripInlineMarkdown(atx[2] ?? "");
+      if (text) headings.push({ level: atx[1]!.length, text, line: i });
+      continue;
+    }
+
+    const setext = line.match(/^ {0,3}(=+|-+)[ \t]*$/);
+    const prev = i > 0 ? lines[i - 1]!.replace(/\r$/, "") : "";
+    if (
+      setext &&
+      prev.trim() &&
+      codeLine !== i - 1 &&
+      // The underlined line must be paragraph text, not another block
+      !/^ {0,3}([>#]|[-*+][ \t]|\d+[.)][ \t]|(=+|-+)[ \t]*$)/.test(prev) &&
+      headings[headings.length - 1]?.line !== i - 1
+    ) {
+      const text = stripInlineMarkdown(prev);
+      if (text) headings.push({ level: setext[1]![0] === "=" ? 1 : 2, text, line: i - 1 });
+    }
+  }
+
+  return headings;
+}
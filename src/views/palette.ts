@@ -0,0 +1,159 @@
+import {
+  BoxRenderable,
+  InputRenderable,
+  InputRenderableEvents,
+  SelectRenderable,
+  SelectRenderableEvents,
+  type SelectOption,
+  type RenderContext,
+} from "@opentui/core";
+import type { Theme } from "../theme.ts";
+import { CONTEXT_TITLES, getAction, type ActionId, type Keymap } from "../keymap.ts";
+
+export type PaletteRunHandler = (id: ActionId) => void;
+
+type Entry = {
+  id: ActionId;
+  /** "Search: Toggle full document output" */
+  text: string;
+  keys: string;
+};
+
+/**
+ * Subsequence match; lower scores are better. Matches at word starts and
+ * runs of consecutive characters rank first, null when it doesn't match.
+ */
+function fuzzyScore(text: string, query: string): number | null {
+  const lower = text.toLowerCase();
+  let score = 0;
+  let last = -1;
+  for (const ch of query.toLowerCase()) {
+    if (ch === " ") continue;
+    const i = lower.indexOf(ch, last + 1);
+    if (i < 0) return null;
+    const wordStart = i === 0 || /[\s:/-]/.test(lower[i - 1]!);
+    score += i === last + 1 ? 0 : wordStart ? 1 : 2 + (i - last);
+    last = i;
+  }
+  return score;
+}
+
+/** Fuzzy-filtered overlay listing the actions available in the current state. */
+export class CommandPalette {
+  readonly container: BoxRenderable;
+  readonly input: InputRenderable;
+  private list: SelectRenderable;
+  private entries: Entry[] = [];
+
+  onRun: PaletteRunHandler | null = null;
+
+  constructor(
+    private ctx: RenderContext,
+    private theme: Theme,
+    private keymap: Keymap,
+  ) {
+    this.container = new BoxRenderable(ctx, {
+      id: "palette-overlay",
+      position: "absolute",
+      top: 2,
+      left: "20%" as any,
+      width: "60%" as any,
+      height: 18,
+      zIndex: 100,
+      border: true,
+      borderStyle: "rounded",
+      borderColor: theme.border_active,
+      backgroundColor: theme.background,
+      title: "Commands",
+      titleAlignment: "left",
+      flexDirection: "column",
+    });
+
+    this.input = new InputRenderable(ctx, {
+      id: "palette-input",
+      placeholder: "Type a command...",
+      paddingLeft: 1,
+      paddingRight: 1,
+      marginBottom: 1,
+    });
+    this.container.add(this.input);
+
+    this.list = new SelectRenderable(ctx, {
+      id: "palette-list",
+      flexGrow: 1,
+      options: [],
+      showDescription: false,
+      showScrollIndicator: true,
+      wrapSelection: true,
+
+      backgroundColor: theme.background,
+      selectedBackgroundColor: theme.selection_bg,
+      selectedTextColor: theme.selection_fg,
+    });
+    this.container.add(this.list);
+
+    this.input.on(InputRenderableEvents.INPUT, () => {
+      this.applyFilter();
+    });
+
+    this.list.on(
+      SelectRenderableEvents.ITEM_SELECTED,
+      (_index: number, option: SelectOption) => {
+        if (option.value) this.onRun?.(option.value as ActionId);
+      },
+    );
+  }
+
+  /** Reset the filter and list the given actions. */
+  open(ids: ActionId[]): void {
+    this.entries = ids.map((id) => {
+      const action = getAction(id);
+      return {
+        id,
+        text: `${CONTEXT_TITLES[action.context]}: ${action.description}`,
+        keys: this.keymap.keyLabels(id).join(", "),
+      };
+    });
+    this.input.value = "";
+    this.applyFilter();
+    this.input.focus();
+  }
+
+  close(): void {
+    this.input.blur();
+  }
+
+  moveSelection(delta: number): void {
+    if (delta > 0) this.list.moveDown(delta);
+    else this.list.moveUp(-delta);
+  }
+
+  /** The highlighted action, if any. */
+  get selected(): ActionId | null {
+    return (this.list.getSelectedOption()?.value as ActionId | undefined) ?? null;
+  }
+
+  private applyFilter(): void {
+    const query = this.input.value.trim();
+    const matches = this.entries
+      .map((entry, index) => ({
+        entry,
+        index,
+        score: query ? fuzzyScore(`${entry.text} ${entry.id}`, query) : 0,
+      }))
+      .filter((m) => m.score !== null)
+      .sort((a, b) => a.score! - b.score! || a.index - b.index);
+
+    // Key column first so long descriptions don't push the bindings out of view
+    const width = Math.max(0, ...matches.map((m) => m.entry.keys.length));
+    this.list.options = matches.map(({ entry }) => ({
+      name: `${entry.keys.padEnd(width)}  ${entry.text}`,
+      description: "",
+      value: entry.id,
+    }));
+    this.list.setSelectedIndex(0);
+    this.container.title = query
+      ? `Commands (${matches.length}/${this.entries.length})`
+      : "Commands";
+  }
+}
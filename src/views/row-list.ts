@@ -0,0 +1,207 @@
+import {
+  BoxRenderable,
+  ScrollBoxRenderable,
+  TextRenderable,
+  type KeyEvent,
+  type RenderContext,
+  type StyledText,
+} from "@opentui/core";
+import type { Theme } from "../theme.ts";
+
+/** A list row. Rows without a value are headings and can't be selected. */
+export type Row = {
+  value: string | null;
+  content: StyledText | string;
+};
+
+type RowItem = {
+  box: BoxRenderable;
+  gutter: TextRenderable;
+  text: TextRenderable;
+};
+
+// Rows moved by PageUp/PageDown
+const PAGE_STEP = 5;
+
+/**
+ * Scrollable list of multi-line, styled rows, for lists that outgrow
+ * SelectRenderable's one-line name and description. Keys match Select:
+ * Up/Down or j/k move (wrapping around), Enter selects.
+ */
+export class RowList {
+  readonly scroll: ScrollBoxRenderable;
+  private rows: Row[] = [];
+  private items: RowItem[] = [];
+  private selected = -1;
+  private nextId = 0;
+
+  /** Enter on a row. */
+  onSelect: ((value: string) => void) | null = null;
+  /** The highlight moved to another row (null: the list was emptied). */
+  onHighlight: ((value: string | null) => void) | null = null;
+
+  constructor(
+    private ctx: RenderContext,
+    private theme: Theme,
+    private id: string,
+  ) {
+    this.scroll = new ScrollBoxRenderable(ctx, {
+      id,
+      rootOptions: { flexGrow: 1, flexBasis: 0 },
+      contentOptions: { flexDirection: "column", gap: 1 },
+      viewportCulling: true,
+      onKeyDown: (key) => this.handleKey(key),
+    });
+  }
+
+  get focused(): boolean {
+    return this.scroll.focused;
+  }
+
+  focus(): void {
+    this.scroll.focus();
+  }
+
+  /** Replace the rows, keeping the highlighted value if it's still listed. */
+  setRows(rows: Row[]): void {
+    const previous = this.selectedValue;
+    this.rows = rows;
+
+    for (const [i, row] of rows.entries()) {
+      const item = this.items[i] ?? this.createItem();
+      item.text.content = row.content;
+    }
+    for (const item of this.items.splice(rows.length)) {
+      this.scroll.remove(item.box.id);
+      item.box.destroyRecursively();
+    }
+
+    const kept = previous === null ? -1 : rows.findIndex((r) => r.value === previous);
+    this.selected = kept >= 0 ? kept : rows.findIndex((r) => r.value !== null);
+    this.renderSelection();
+    if (kept < 0) {
+      this.scroll.scrollTo(0);
+      this.onHighlight?.(this.selectedValue);
+    }
+  }
+
+  get selectedValue(): string | null {
+    return this.rows[this.selected]?.value ?? null;
+  }
+
+  /**
+   * Highlight the row with `value`, or no row if it isn't listed. Unlike
+   * moving, this doesn't call onHighlight.
+   */
+  select(value: string): void {
+    this.selected = this.rows.findIndex((r) => r.value === value);
+    this.renderSelection();
+    this.reveal();
+  }
+
+  moveDown(steps = 1): void {
+    this.move(steps);
+  }
+
+  moveUp(steps = 1): void {
+    this.move(-steps);
+  }
+
+  private move(delta: number): void {
+    const selectable = this.rows.flatMap((r, i) => (r.value !== null ? [i] : []));
+    if (selectable.length === 0) return;
+    const at = selectable.indexOf(this.selected);
+    // Nothing highlighted: start from the end the move goes away from
+    let next = at < 0 ? (delta > 0 ? delta - 1 : selectable.length + delta) : at + delta;
+    // Single steps wrap around, page steps stop at the ends
+    if (Math.abs(delta) === 1) next = (next + selectable.length) % selectable.length;
+    else next = Math.max(0, Math.min(selectable.length - 1, next));
+    if (selectable[next] === this.selected) return;
+    this.selected = selectable[next]!;
+    this.renderSelection();
+    this.reveal();
+    this.onHighlight?.(this.selectedValue);
+  }
+
+  private handleKey(key: KeyEvent): void {
+    let handled = true;
+    switch (key.name) {
+      case "up":
+      case "k":
+        this.moveUp();
+        break;
+      case "down":
+      case "j":
+        this.moveDown();
+        break;
+      case "pageup":
+        this.moveUp(PAGE_STEP);
+        break;
+      case "pagedown":
+        this.moveDown(PAGE_STEP);
+        break;
+      case "return":
+      case "linefeed": {
+        const value = this.selectedValue;
+        if (value !== null) this.onSelect?.(value);
+        break;
+      }
+      default:
+        handled = false;
+    }
+    // Keep the ScrollBox from scrolling on its own
+    if (handled) key.preventDefault();
+  }
+
+  private createItem(): RowItem {
+    const n = this.nextId++;
+    const box = new BoxRenderable(this.ctx, {
+      id: `${this.id}-row-${n}`,
+      flexDirection: "row",
+      flexShrink: 0,
+    });
+    const gutter = new TextRenderable(this.ctx, {
+      id: `${this.id}-gutter-${n}`,
+      content: "",
+      width: 2,
+      flexShrink: 0,
+      fg: this.theme.accent,
+    });
+    const text = new TextRenderable(this.ctx, {
+      id: `${this.id}-text-${n}`,
+      content: "",
+      flexGrow: 1,
+      wrapMode: "none",
+    });
+    box.add(gutter);
+    box.add(text);
+    this.scroll.add(box);
+    const item = { box, gutter, text };
+    this.items.push(item);
+    return item;
+  }
+
+  private renderSelection(): void {
+    for (const [i, item] of this.items.entries()) {
+      const selected = i === this.selected;
+      item.box.backgroundColor = selected ? this.theme.selection_bg : "transparent";
+      item.gutter.content = selected ? "▶" : "";
+    }
+  }
+
+  /** Scroll the highlighted row into view. */
+  private reveal(): void {
+    const item = this.items[this.selected];
+    if (!item) return;
+    const top = item.box.y - this.scroll.content.y;
+    const bottom = top + item.box.height;
+    const height = this.scroll.viewport.height;
+    if (top < this.scroll.scrollTop) {
+      // Bring a group heading right above into view too
+      const above = this.rows[this.selected - 1]?.value === null ? this.items[this.selected - 1] : undefined;
+      this.scroll.scrollTo(above ? above.box.y - this.scroll.content.y : top);
+    } else if (bottom > this.scroll.scrollTop + height) {
+      this.scroll.scrollTo(bottom - height);
+    }
+  }
+}
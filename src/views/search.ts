@@ -1,12 +1,14 @@
+import { resolve } from "node:path";
 import {
   BoxRenderable,
   InputRenderable,
   InputRenderableEvents,
-  SelectRenderable,
-  SelectRenderableEvents,
+  MarkdownRenderable,
+  ScrollBoxRenderable,
+  StyledText,
   TextRenderable,
-  type SelectOption,
   type RenderContext,
+  type TextChunk,
   t,
   fg,
   bold,
@@ -14,11 +16,42 @@ import {
 } from "@opentui/core";
 import type { QmdMcpClient, SearchResult, SearchOptions } from "../mcp-client.ts";
 import type { Theme } from "../theme.ts";
-
-export type DocumentOpenHandler = (file: string, title: string) => void;
+import type { SavedSearch } from "../search-store.ts";
+import {
+  matchesFilters,
+  parseFieldFilters,
+  type FieldFilter,
+  type Frontmatter,
+} from "../frontmatter.ts";
+import type { DocumentMatch } from "./document.ts";
+import {
+  createMarkdownStyle,
+  findMatchRanges,
+  findSnippetLine,
+  queryTermsRegex,
+  scrollToSourceLine,
+  snippetText,
+} from "./markdown.ts";
+import { RowList, type Row } from "./row-list.ts";
+import { parseQmdUri } from "../links.ts";
+import { formatExplain } from "./explain.ts";
+import { EXPORT_FORMATS, exportFileName, exportResults } from "../export.ts";
+
+export type DocumentOpenHandler = (
+  file: string,
+  title: string,
+  match?: DocumentMatch,
+) => void;
 
 export type SearchMode = "search" | "vsearch" | "query";
 
+// Delay before a keystroke triggers an incremental (BM25) search
+const INCREMENTAL_DEBOUNCE_MS = 200;
+
+// Result rows: cells of the score bar, snippet lines shown
+const SCORE_BAR_WIDTH = 10;
+const SNIPPET_LINES = 3;
+
 const SEARCH_MODES: { mode: SearchMode; label: string }[] = [
   { mode: "search", label: "Search" },
   { mode: "vsearch", label: "Vector" },
@@ -28,14 +61,55 @@ const SEARCH_MODES: { mode: SearchMode; label: string }[] = [
 export class SearchView {
   readonly container: BoxRenderable;
   readonly input: InputRenderable;
-  readonly resultsList: SelectRenderable;
+  readonly resultsList: RowList;
+  private resultsRow: BoxRenderable;
+  private preview: ScrollBoxRenderable;
+  private previewMarkdown: MarkdownRenderable;
+  private previewVisible = false;
+  private previewGeneration = 0;
+  private previewCache = new Map<string, string>();
+  // Score breakdown of the highlighted result, shown instead of the preview
+  private inspector: ScrollBoxRenderable;
+  private inspectorText: TextRenderable;
+  private inspectorOn = false;
+  private inspectorVisible = false;
+  private saveRow: BoxRenderable;
+  readonly saveInput: InputRenderable;
+  private _saving = false;
+  private exportRow: BoxRenderable;
+  private exportLabel: TextRenderable;
+  readonly exportInput: InputRenderable;
+  private _exporting = false;
+  private exportFormatIndex = 0;
   private label: TextRenderable;
   private optionsText: TextRenderable;
   private statusText: TextRenderable;
   private results: SearchResult[] = [];
+  // Marked results by URI; kept with their data since they can come from earlier searches
+  private marked = new Map<string, SearchResult>();
+  private lastQuery = "";
+  // The search the current results came from, as typed
+  private lastSearch: { input: string; mode: SearchMode; opts: SearchOptions } | null = null;
   private onDocumentOpen: DocumentOpenHandler | null = null;
   private modeIndex = 0;
 
+  // Incremental search: only the latest request may render its results
+  private searchGeneration = 0;
+  private inflight: AbortController | null = null;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Up/down history in the input; index -1 is the unsent draft
+  private history: string[] = [];
+  private historyIndex = -1;
+  private historyDraft = "";
+
+  onQueryCommitted: ((query: string) => void) | null = null;
+  onSave: ((saved: SavedSearch) => void) | null = null;
+  onExportClose: (() => void) | null = null;
+  loadFrontmatter:
+    | ((uris: string[]) => Promise<Map<string, Frontmatter | null>>)
+    | null = null;
+
   // Search options
   private optFull = false;
   private optExplain = false;
@@ -83,6 +157,47 @@ export class SearchView {
     inputRow.add(this.input);
     this.container.add(inputRow);
 
+    // "Save as" prompt, shown below the input while saving a search
+    this.saveRow = new BoxRenderable(ctx, {
+      id: "search-save-row",
+      flexDirection: "row",
+      paddingLeft: 1,
+      gap: 1,
+    });
+    this.saveInput = new InputRenderable(ctx, {
+      id: "search-save-input",
+      width: 30,
+      placeholder: "Name for this search...",
+    });
+    this.saveRow.add(
+      new TextRenderable(ctx, {
+        id: "search-save-label",
+        flexShrink: 0,
+        content: t`${bold(fg(theme.accent)("Save as:"))}`,
+      }),
+    );
+    this.saveRow.add(this.saveInput);
+
+    // "Export to" prompt, same place; Tab cycles the format
+    this.exportRow = new BoxRenderable(ctx, {
+      id: "search-export-row",
+      flexDirection: "row",
+      paddingLeft: 1,
+      gap: 1,
+    });
+    this.exportLabel = new TextRenderable(ctx, {
+      id: "search-export-label",
+      flexShrink: 0,
+      content: this.makeExportLabelContent(),
+    });
+    this.exportInput = new InputRenderable(ctx, {
+      id: "search-export-input",
+      width: 50,
+      placeholder: "File to write...",
+    });
+    this.exportRow.add(this.exportLabel);
+    this.exportRow.add(this.exportInput);
+
     this.optionsText = new TextRenderable(ctx, {
       id: "search-options",
       content: this.makeOptionsContent(),
@@ -97,32 +212,187 @@ export class SearchView {
     });
     this.container.add(this.statusText);
 
-    this.resultsList = new SelectRenderable(ctx, {
-      id: "search-results",
+    this.resultsRow = new BoxRenderable(ctx, {
+      id: "search-results-row",
+      flexDirection: "row",
       flexGrow: 1,
-      options: [],
-      showDescription: true,
-      showScrollIndicator: true,
-      wrapSelection: true,
-
-      selectedBackgroundColor: theme.selection_bg,
-      selectedTextColor: theme.selection_fg,
-      selectedDescriptionColor: theme.selection_desc,
+      gap: 1,
+    });
+    this.container.add(this.resultsRow);
+
+    this.resultsList = new RowList(ctx, theme, "search-results");
+    this.resultsRow.add(this.resultsList.scroll);
+
+    // Preview of the highlighted result, shown while the results list is focused
+    this.preview = new ScrollBoxRenderable(ctx, {
+      id: "search-preview",
+      rootOptions: {
+        flexGrow: 1,
+        flexBasis: 0,
+        border: ["left"],
+        borderColor: theme.border_inactive,
+      },
+      contentOptions: {
+        flexDirection: "column",
+        paddingLeft: 1,
+      },
+      viewportCulling: true,
+    });
+    this.previewMarkdown = new MarkdownRenderable(ctx, {
+      id: "search-preview-content",
+      content: "",
+      syntaxStyle: createMarkdownStyle(theme),
+      conceal: true,
+    });
+    this.preview.add(this.previewMarkdown);
+
+    this.inspector = new ScrollBoxRenderable(ctx, {
+      id: "search-inspector",
+      rootOptions: {
+        flexGrow: 1,
+        flexBasis: 0,
+        border: ["left"],
+        borderColor: theme.border_inactive,
+      },
+      contentOptions: {
+        flexDirection: "column",
+        paddingLeft: 1,
+      },
+    });
+    this.inspectorText = new TextRenderable(ctx, {
+      id: "search-inspector-content",
+      content: "",
+    });
+    this.inspector.add(this.inspectorText);
+
+    this.input.on(InputRenderableEvents.INPUT, (value: string) => {
+      this.scheduleIncrementalSearch(value);
     });
-    this.container.add(this.resultsList);
 
     this.input.on(InputRenderableEvents.ENTER, async (value: string) => {
+      this.cancelDebounce();
+      this.commitQuery();
       await this.performSearch(value);
     });
 
-    this.resultsList.on(
-      SelectRenderableEvents.ITEM_SELECTED,
-      (_index: number, option: SelectOption) => {
-        if (this.onDocumentOpen && option.value && option.value !== "__none__") {
-          this.onDocumentOpen(option.value, option.name);
+    this.saveInput.on(InputRenderableEvents.ENTER, (value: string) => {
+      const name = value.trim();
+      if (!name) return;
+      this.onSave?.({ name, ...this.currentSearch() });
+      this.cancelSave();
+      this.statusText.content = t`${fg(this.theme.success)(`Saved search "${name}".`)}`;
+    });
+
+    this.exportInput.on(InputRenderableEvents.ENTER, (value: string) => {
+      const path = value.trim();
+      if (path) this.writeExport(path);
+    });
+
+    this.resultsList.onSelect = (file) => {
+      const result = this.results.find((r) => r.file === file);
+      const match = result
+        ? { query: this.lastQuery, snippet: result.snippet, mode: this.lastSearch?.mode }
+        : undefined;
+      this.onDocumentOpen?.(file, result?.title ?? file, match);
+    };
+
+    this.resultsList.onHighlight = (file) => {
+      if (this.previewVisible) this.updatePreview(file);
+      if (this.inspectorVisible) this.updateInspector(file);
+    };
+  }
+
+  private showPreview(): void {
+    if (this.inspectorOn) {
+      this.showInspector();
+      return;
+    }
+    if (!this.previewVisible) {
+      this.resultsRow.add(this.preview);
+      this.previewVisible = true;
+    }
+    this.updatePreview(this.resultsList.selectedValue);
+  }
+
+  private hidePreview(): void {
+    this.hideInspector();
+    if (!this.previewVisible) return;
+    this.previewGeneration++;
+    this.resultsRow.remove(this.preview.id);
+    this.previewVisible = false;
+  }
+
+  get inspecting(): boolean {
+    return this.inspectorOn;
+  }
+
+  /** Switch the pane next to the focused results between preview and score breakdown. */
+  toggleInspector(): void {
+    this.inspectorOn = !this.inspectorOn;
+    if (!this.resultsList.focused) return;
+    this.hidePreview();
+    this.showPreview();
+  }
+
+  private showInspector(): void {
+    if (!this.inspectorVisible) {
+      this.resultsRow.add(this.inspector);
+      this.inspectorVisible = true;
+    }
+    this.updateInspector(this.resultsList.selectedValue);
+  }
+
+  private hideInspector(): void {
+    if (!this.inspectorVisible) return;
+    this.resultsRow.remove(this.inspector.id);
+    this.inspectorVisible = false;
+  }
+
+  private updateInspector(file: string | null): void {
+    const result = this.results.find((r) => r.file === file);
+    this.inspector.scrollTo(0);
+    if (!result) {
+      this.inspectorText.content = "";
+    } else if (!result.explain) {
+      const hint = this.optExplain
+        ? "qmd returned no score breakdown for this result."
+        : "Turn on explain (Ctrl+E) and search again to see the score breakdown.";
+      this.inspectorText.content = t`${fg(this.theme.muted)(hint)}`;
+    } else {
+      this.inspectorText.content = formatExplain(result, this.theme);
+    }
+  }
+
+  private async updatePreview(file: string | null): Promise<void> {
+    const generation = ++this.previewGeneration;
+    const result = this.results.find((r) => r.file === file);
+    if (!result) {
+      this.previewMarkdown.content = "";
+      return;
+    }
+
+    let text = this.previewCache.get(result.file);
+    if (text == null) {
+      this.previewMarkdown.content = "*Loading...*";
+      try {
+        text = await this.mcp.getDocument(result.file);
+      } catch (err) {
+        if (generation === this.previewGeneration) {
+          this.previewMarkdown.content = `**Error:** ${err}`;
         }
-      },
-    );
+        return;
+      }
+      this.previewCache.set(result.file, text);
+    }
+    // The highlight moved on while we were loading
+    if (generation !== this.previewGeneration) return;
+
+    this.previewMarkdown.content = text;
+    this.preview.scrollTo(0);
+    const line = findSnippetLine(text, result.snippet);
+    if (line > 0) {
+      scrollToSourceLine(this.preview, line, text.split("\n").length);
+    }
   }
 
   get mode(): SearchMode {
@@ -232,12 +502,62 @@ export class SearchView {
     return opts;
   }
 
+  /** Options the current search runs with, e.g. to run it in other modes too. */
+  get searchOptions(): SearchOptions {
+    return this.buildSearchOpts();
+  }
+
+  private scheduleIncrementalSearch(query: string): void {
+    this.cancelDebounce();
+    // Only BM25 is cheap enough to run per keystroke; structured queries go through the LLM
+    if (this.mode !== "search") return;
+    if (/^(lex|vec|hyde|expand|intent):/.test(query.trim())) return;
+
+    if (!query.trim()) {
+      this.cancelInflight();
+      this.results = [];
+      this.lastSearch = null;
+      this.resultsList.setRows([]);
+      this.statusText.content = "";
+      return;
+    }
+
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.performSearch(query);
+    }, INCREMENTAL_DEBOUNCE_MS);
+  }
+
+  private cancelDebounce(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+  }
+
+  private cancelInflight(): void {
+    this.searchGeneration++;
+    if (this.inflight) {
+      this.inflight.abort();
+      this.inflight = null;
+    }
+  }
+
   async performSearch(query: string): Promise<void> {
     if (!query.trim()) return;
 
+    // Kill the previous qmd process; its results must never overwrite ours
+    this.cancelInflight();
+    this.previewCache.clear();
+    const generation = this.searchGeneration;
+    const controller = new AbortController();
+    this.inflight = controller;
+    const isCurrent = () => generation === this.searchGeneration;
+
     // Clear previous results immediately
     this.results = [];
-    this.resultsList.options = [{ name: "", description: "", value: "__none__" }];
+    this.lastSearch = null;
+    this.resultsList.setRows([]);
 
     // Detect structured query (lex:/vec:/hyde:/expand:/intent: prefixes)
     const isStructured = /^(lex|vec|hyde|expand|intent):/.test(query.trim());
@@ -245,9 +565,19 @@ export class SearchView {
     // For structured queries, always use query mode
     const effectiveMode = isStructured ? "query" : this.mode;
 
+    // @field:value filters (@tag:x @status:y) narrow the results by frontmatter
+    const { text: searchText, filters } = isStructured
+      ? { text: query, filters: [] as FieldFilter[] }
+      : parseFieldFilters(query);
+    if (!searchText) {
+      this.statusText.content = t`${fg(this.theme.warning)("Add search terms besides the frontmatter filters.")}`;
+      return;
+    }
+
     // Check embeddings for modes that need them
     if (effectiveMode === "vsearch" || effectiveMode === "query") {
       const status = await this.mcp.status();
+      if (!isCurrent()) return;
       if (status.needsEmbedding > 0 && !status.hasVectorIndex) {
         this.statusText.content = t`${fg(this.theme.warning)(`No embeddings yet. Run 'qmd embed' first.`)}`;
         return;
@@ -262,69 +592,383 @@ export class SearchView {
         : "Searching...";
     this.statusText.content = t`${fg(this.theme.muted)(statusMsg)}`;
 
-    const opts = this.buildSearchOpts();
+    const searchOpts = this.buildSearchOpts();
+    const opts = { ...searchOpts, signal: controller.signal };
 
     // For structured queries with newlines, replace literal \n with actual newlines
     const effectiveQuery = isStructured
       ? query.replace(/\\n/g, "\n")
-      : query;
+      : searchText;
 
     try {
-      switch (effectiveMode) {
-        case "search":
-          this.results = await this.mcp.search(effectiveQuery, opts);
-          break;
-        case "vsearch":
-          this.results = await this.mcp.vectorSearch(effectiveQuery, opts);
-          break;
-        case "query":
-          this.results = await this.mcp.deepSearch(effectiveQuery, opts);
-          break;
+      let results = await this.runMode(effectiveMode, effectiveQuery, opts);
+      if (!isCurrent()) return;
+      if (filters.length > 0 && this.loadFrontmatter) {
+        this.statusText.content = t`${fg(this.theme.muted)("Filtering by frontmatter...")}`;
+        const frontmatter = await this.loadFrontmatter(results.map((r) => r.file));
+        if (!isCurrent()) return;
+        results = results.filter((r) =>
+          matchesFilters(frontmatter.get(r.file) ?? null, filters),
+        );
       }
+      this.inflight = null;
+      this.results = results;
+      this.lastQuery = effectiveQuery;
+      this.lastSearch = { input: query.trim(), mode: effectiveMode, opts: searchOpts };
 
       if (this.results.length === 0) {
-        this.resultsList.options = [{ name: "No results", description: "", value: "__none__" }];
+        this.resultsList.setRows([{ value: null, content: t`${fg(this.theme.muted)("No results")}` }]);
         this.statusText.content = t`${fg(this.theme.warning)("No results found.")}`;
         return;
       }
 
-      this.statusText.content = t`${fg(this.theme.success)(`${this.results.length} results`)}`;
-
-      this.resultsList.options = this.results.map((r) => {
-        const scorePct = `${Math.round(r.score * 100)}%`;
-        let desc = `${scorePct} | ${r.file}`;
-        if (this.optExplain && r.explain) {
-          const ex = r.explain as any;
-          const parts: string[] = [];
-          if (ex.rerankScore != null) parts.push(`rerank:${(ex.rerankScore * 100).toFixed(0)}%`);
-          if (ex.blendedScore != null) parts.push(`blended:${(ex.blendedScore * 100).toFixed(0)}%`);
-          if (ex.rrf?.score != null) parts.push(`rrf:${(ex.rrf.score * 100).toFixed(0)}%`);
-          if (parts.length > 0) desc += ` | ${parts.join(" ")}`;
-        }
-        return {
-          name: r.title,
-          description: desc,
-          value: r.file,
-        };
-      });
+      const filterLabel = filters
+        .map((f) => `${f.negate ? "-" : ""}${f.field}:${f.value}`)
+        .join(" ");
+      this.statusText.content = filterLabel
+        ? t`${fg(this.theme.success)(`${this.results.length} results`)} ${fg(this.theme.muted)(`[${filterLabel}]`)}`
+        : t`${fg(this.theme.success)(`${this.results.length} results`)}`;
+
+      this.renderResults();
     } catch (err) {
-      this.resultsList.options = [{ name: "", description: "", value: "__none__" }];
+      // Superseded by a newer search (or aborted) — leave its state alone
+      if (!isCurrent()) return;
+      this.inflight = null;
+      this.resultsList.setRows([]);
       this.statusText.content = t`${fg(this.theme.error)(`Error: ${err}`)}`;
     }
   }
 
+  private runMode(mode: SearchMode, query: string, opts: SearchOptions): Promise<SearchResult[]> {
+    switch (mode) {
+      case "search":
+        return this.mcp.search(query, opts);
+      case "vsearch":
+        return this.mcp.vectorSearch(query, opts);
+      case "query":
+        return this.mcp.deepSearch(query, opts);
+    }
+  }
+
+  private renderResults(): void {
+    const terms = queryTermsRegex(this.lastQuery, this.lastSearch?.mode);
+    const rows: Row[] = [];
+    if (this.selectedCollection) {
+      for (const r of this.results) rows.push(this.resultRow(r, terms));
+    } else {
+      // Searching everything: group by collection, best collection first
+      const groups = new Map<string, SearchResult[]>();
+      for (const r of this.results) {
+        const name = parseQmdUri(r.file)?.collection ?? "";
+        groups.set(name, [...(groups.get(name) ?? []), r]);
+      }
+      for (const [name, results] of groups) {
+        rows.push({
+          value: null,
+          content: t`${bold(fg(this.theme.heading)(name || "(other)"))} ${fg(this.theme.muted)(`(${results.length})`)}`,
+        });
+        for (const r of results) rows.push(this.resultRow(r, terms));
+      }
+    }
+    this.resultsList.setRows(rows);
+  }
+
+  /**
+   * Title, docid and marker; score bar, path and explain scores; collection
+   * context; then the snippet with the query terms highlighted.
+   */
+  private resultRow(r: SearchResult, terms: RegExp | null): Row {
+    const muted = fg(this.theme.muted);
+    const chunks: TextChunk[] = [];
+    if (this.marked.has(r.file)) chunks.push(fg(this.theme.accent)("● "));
+    chunks.push(bold(fg(this.theme.foreground)(r.title || r.file)));
+    if (r.docid) chunks.push(muted(`  ${r.docid}`));
+
+    const filled = Math.round(Math.min(1, Math.max(0, r.score)) * SCORE_BAR_WIDTH);
+    const color =
+      r.score >= 0.7 ? this.theme.success : r.score >= 0.4 ? this.theme.warning : this.theme.error;
+    chunks.push(
+      muted("\n"),
+      fg(color)("█".repeat(filled)),
+      muted(`${"░".repeat(SCORE_BAR_WIDTH - filled)} ${Math.round(r.score * 100)}%  ${r.file}`),
+    );
+    if (this.optExplain && r.explain) {
+      const ex = r.explain as any;
+      const parts: string[] = [];
+      if (ex.rerankScore != null) parts.push(`rerank:${(ex.rerankScore * 100).toFixed(0)}%`);
+      if (ex.blendedScore != null) parts.push(`blended:${(ex.blendedScore * 100).toFixed(0)}%`);
+      if (ex.rrf?.score != null) parts.push(`rrf:${(ex.rrf.score * 100).toFixed(0)}%`);
+      if (parts.length > 0) chunks.push(muted(`  ${parts.join(" ")}`));
+    }
+
+    if (r.context) chunks.push(muted("\n"), fg(this.theme.italic)(r.context));
+
+    const lines = snippetText(r.snippet)
+      .split("\n")
+      .map((line) => line.replace(/\s+/g, " ").trim())
+      .filter(Boolean)
+      .slice(0, SNIPPET_LINES);
+    for (const line of lines) {
+      chunks.push(muted("\n"));
+      let pos = 0;
+      for (const [start, end] of terms ? findMatchRanges(line, terms) : []) {
+        chunks.push(fg(this.theme.foreground)(line.slice(pos, start)));
+        chunks.push(bold(fg(this.theme.warning)(line.slice(start, end))));
+        pos = end;
+      }
+      chunks.push(fg(this.theme.foreground)(line.slice(pos)));
+    }
+    return { value: r.file, content: new StyledText(chunks) };
+  }
+
+  /** Mark or unmark the highlighted result and move on to the next one. */
+  toggleMark(): void {
+    const result = this.highlightedResult();
+    if (!result) return;
+    if (!this.marked.delete(result.file)) this.marked.set(result.file, result);
+    this.renderResults();
+    this.resultsList.moveDown();
+  }
+
+  /** Mark all current results, or unmark them if they're all marked already. */
+  toggleMarkAll(): void {
+    const all = this.results.every((r) => this.marked.has(r.file));
+    for (const r of this.results) {
+      if (all) this.marked.delete(r.file);
+      else this.marked.set(r.file, r);
+    }
+    this.renderResults();
+  }
+
+  /** Marks are kept across searches, so results can be gathered from several queries. */
+  get markedCount(): number {
+    return this.marked.size;
+  }
+
+  /** Marked documents, or else the highlighted one. */
+  getTargetFiles(): string[] {
+    return this.getTargetItems().map((r) => r.file);
+  }
+
+  /** Marked results, or else the highlighted one. */
+  getTargetItems(): SearchResult[] {
+    if (this.marked.size > 0) return [...this.marked.values()];
+    const result = this.highlightedResult();
+    return result ? [result] : [];
+  }
+
+  private highlightedResult(): SearchResult | undefined {
+    const file = this.resultsList.selectedValue;
+    return this.results.find((r) => r.file === file);
+  }
+
+  showStatus(message: string, error = false): void {
+    this.statusText.content = error
+      ? t`${fg(this.theme.error)(message)}`
+      : t`${fg(this.theme.muted)(message)}`;
+  }
+
+  setHistory(history: string[]): void {
+    this.history = history;
+    this.historyIndex = -1;
+  }
+
+  historyPrev(): void {
+    if (this.history.length === 0) return;
+    if (this.historyIndex === -1) {
+      this.historyDraft = this.input.value;
+      this.historyIndex = this.history.length - 1;
+    } else if (this.historyIndex > 0) {
+      this.historyIndex--;
+    }
+    this.input.value = this.history[this.historyIndex]!;
+  }
+
+  historyNext(): void {
+    if (this.historyIndex === -1) return;
+    if (this.historyIndex < this.history.length - 1) {
+      this.historyIndex++;
+      this.input.value = this.history[this.historyIndex]!;
+    } else {
+      this.historyIndex = -1;
+      this.input.value = this.historyDraft;
+    }
+  }
+
+  private commitQuery(): void {
+    const query = this.input.value.trim();
+    this.historyIndex = -1;
+    if (query) this.onQueryCommitted?.(query);
+  }
+
+  private currentSearch(): Omit<SavedSearch, "name"> {
+    const { collection, signal, ...options } = this.buildSearchOpts();
+    return {
+      // The query the results came from; what's typed if nothing has run yet
+      query: this.lastSearch?.input || this.input.value.trim(),
+      mode: this.mode,
+      collection,
+      options,
+    };
+  }
+
+  get saving(): boolean {
+    return this._saving;
+  }
+
+  startSave(): void {
+    if (!this.input.value.trim()) {
+      this.statusText.content = t`${fg(this.theme.warning)("Nothing to save — enter a query first.")}`;
+      return;
+    }
+    if (!this._saving) {
+      this.cancelExport();
+      this.container.add(this.saveRow, 1);
+      this._saving = true;
+    }
+    this.saveInput.value = "";
+    this.saveInput.focus();
+  }
+
+  cancelSave(): void {
+    if (!this._saving) return;
+    this.container.remove(this.saveRow.id);
+    this._saving = false;
+    this.input.focus();
+  }
+
+  get exporting(): boolean {
+    return this._exporting;
+  }
+
+  get exportFormatLabel(): string {
+    return EXPORT_FORMATS[this.exportFormatIndex]!.label;
+  }
+
+  private makeExportLabelContent() {
+    return t`${bold(fg(this.theme.accent)(`Export ${this.exportFormatLabel} to:`))}`;
+  }
+
+  startExport(): void {
+    if (this.results.length === 0) {
+      this.statusText.content = t`${fg(this.theme.warning)("Nothing to export — run a search first.")}`;
+      return;
+    }
+    this.cancelSave();
+    if (!this._exporting) {
+      this.container.add(this.exportRow, 1);
+      this._exporting = true;
+    }
+    this.exportInput.value = exportFileName(EXPORT_FORMATS[this.exportFormatIndex]!.format);
+    this.exportInput.focus();
+  }
+
+  /** Next export format; a file name still ending in the old extension follows along. */
+  cycleExportFormat(): void {
+    const previous = EXPORT_FORMATS[this.exportFormatIndex]!;
+    this.exportFormatIndex = (this.exportFormatIndex + 1) % EXPORT_FORMATS.length;
+    const next = EXPORT_FORMATS[this.exportFormatIndex]!;
+    this.exportLabel.content = this.makeExportLabelContent();
+    const value = this.exportInput.value;
+    if (value.endsWith(previous.extension)) {
+      this.exportInput.value = value.slice(0, -previous.extension.length) + next.extension;
+    }
+  }
+
+  cancelExport(): void {
+    if (!this._exporting) return;
+    this.container.remove(this.exportRow.id);
+    this._exporting = false;
+    this.input.focus();
+    this.onExportClose?.();
+  }
+
+  /** Write the marked results, or all of them, in the selected format. */
+  private async writeExport(path: string): Promise<void> {
+    const { format, label } = EXPORT_FORMATS[this.exportFormatIndex]!;
+    let results = this.marked.size > 0 ? [...this.marked.values()] : this.results;
+    const target = resolve(path);
+    this.cancelExport();
+    this.showStatus(`Exporting ${results.length} results...`);
+    const search = this.lastSearch;
+    try {
+      // JSON carries the score traces: without them, run the search again with explain
+      if (format === "json" && search && !search.opts.explain) {
+        this.showStatus("Re-running the search with explain...");
+        const explained = await this.runMode(search.mode, this.lastQuery, { ...search.opts, explain: true });
+        const byFile = new Map(explained.map((r) => [r.file, r]));
+        results = results.map((r) => byFile.get(r.file) ?? r);
+      }
+      const text = await exportResults(this.mcp, results, format, {
+        query: search?.input ?? this.input.value.trim(),
+        mode: search?.mode ?? this.mode,
+        collection: search?.opts.collection ?? this.selectedCollection,
+      });
+      await Bun.write(target, text);
+      this.statusText.content = t`${fg(this.theme.success)(`Exported ${results.length} results as ${label} to ${target}.`)}`;
+    } catch (err) {
+      this.showStatus(`Export failed: ${err instanceof Error ? err.message : err}`, true);
+    }
+  }
+
+  /** Restore mode, scope, options and query of a saved (or launch) search and run it. */
+  async runSaved(saved: Omit<SavedSearch, "name">): Promise<void> {
+    this.modeIndex = Math.max(
+      0,
+      SEARCH_MODES.findIndex((m) => m.mode === saved.mode),
+    );
+    this.selectedCollection = saved.collection;
+    this.label.content = this.makeLabelContent();
+
+    const opts = saved.options;
+    this.optFull = !!opts.full;
+    this.optExplain = !!opts.explain;
+    this.optAll = !!opts.all;
+    this.optMinScore = opts.minScore ?? null;
+    this.minScoreIndex = Math.max(
+      0,
+      SearchView.MIN_SCORE_VALUES.indexOf(this.optMinScore),
+    );
+    this.optCandidateLimit = opts.candidateLimit ?? null;
+    this.candidateLimitIndex = Math.max(
+      0,
+      SearchView.CANDIDATE_LIMIT_VALUES.indexOf(this.optCandidateLimit),
+    );
+    this.optionsText.content = this.makeOptionsContent();
+
+    this.input.value = saved.query;
+    this.cancelDebounce();
+    this.commitQuery();
+    await this.performSearch(saved.query);
+  }
+
+  get resultCount(): number {
+    return this.results.length;
+  }
+
   focusInput(): void {
+    this.hidePreview();
     this.input.focus();
   }
 
   focusResults(): void {
+    if (this.results.length > 0) this.commitQuery();
     this.resultsList.focus();
+    this.showPreview();
   }
 
   clear(): void {
+    this.cancelDebounce();
+    this.cancelInflight();
+    this.cancelSave();
+    this.cancelExport();
+    this.hidePreview();
+    this.previewCache.clear();
     this.input.value = "";
     this.results = [];
-    this.resultsList.options = [{ name: "", description: "", value: "__none__" }];
+    this.lastSearch = null;
+    this.marked.clear();
+    this.resultsList.setRows([]);
     this.statusText.content = "";
   }
 }
@@ -0,0 +1,133 @@
+import { watch, type FSWatcher } from "node:fs";
+import type { Collection } from "./qmd-cli.ts";
+
+export type WatchOptions = {
+  /** Collections watched from startup: names, or "*" for all. */
+  collections?: string[];
+  /** Quiet period after the last change before re-indexing. */
+  debounceMs?: number;
+  /** Also run `qmd embed` after the automatic update. */
+  embed?: boolean;
+};
+
+const DEFAULT_DEBOUNCE_MS = 2000;
+
+type Watched = {
+  path: string;
+  watcher: FSWatcher;
+};
+
+/**
+ * Watches collection directories for changes to files matching the
+ * collection's pattern. Changed collections are "stale" until they've been
+ * re-indexed; once changes settle, `onSettled` gets the collections to update.
+ */
+export class CollectionWatcher {
+  private watched = new Map<string, Watched>();
+  // Collection name → time of the latest unindexed change
+  private changes = new Map<string, number>();
+  private pending = new Set<string>();
+  private debounce: ReturnType<typeof setTimeout> | null = null;
+  // Configured collections, picked up by the first sync(); later toggles are up to the user
+  private autoWatch: string[];
+
+  /** A collection got its first unindexed change. */
+  onStale: ((name: string) => void) | null = null;
+  /** No further changes for the debounce period. */
+  onSettled: ((names: string[]) => void) | null = null;
+
+  constructor(private options: WatchOptions = {}) {
+    this.autoWatch = options.collections ?? [];
+  }
+
+  get embedAfterUpdate(): boolean {
+    return this.options.embed ?? false;
+  }
+
+  isWatching(name: string): boolean {
+    return this.watched.has(name);
+  }
+
+  /** Names of the watched collections. */
+  get watching(): string[] {
+    return [...this.watched.keys()];
+  }
+
+  /** Names of collections with changes that haven't been indexed yet. */
+  get stale(): string[] {
+    return [...this.changes.keys()];
+  }
+
+  /**
+   * Start watching a collection. Returns false when it has no directory
+   * on disk or it can't be watched.
+   */
+  watch(col: Collection): boolean {
+    if (this.watched.get(col.name)?.path === col.path) return true;
+    this.unwatch(col.name);
+    if (!col.path) return false;
+
+    const glob = new Bun.Glob(col.pattern || "**/*.md");
+    try {
+      const watcher = watch(col.path, { recursive: true }, (_event, filename) => {
+        if (!filename) return;
+        const path = filename.toString().split("\\").join("/");
+        if (glob.match(path)) this.changed(col.name);
+      });
+      watcher.on("error", () => this.unwatch(col.name));
+      this.watched.set(col.name, { path: col.path, watcher });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  unwatch(name: string): void {
+    this.watched.get(name)?.watcher.close();
+    this.watched.delete(name);
+  }
+
+  /**
+   * Follow the current collections: watch configured ones on the first
+   * call, re-watch moved ones and drop removed ones.
+   */
+  sync(collections: Collection[]): void {
+    for (const col of collections) {
+      const configured = this.autoWatch.includes("*") || this.autoWatch.includes(col.name);
+      if (this.watched.has(col.name) || configured) this.watch(col);
+    }
+    this.autoWatch = [];
+    for (const name of [...this.watched.keys()]) {
+      if (!collections.some((c) => c.name === name)) {
+        this.unwatch(name);
+        this.changes.delete(name);
+      }
+    }
+  }
+
+  /** A collection was re-indexed by a run that started at `since`; older changes are covered. */
+  markIndexed(name: string, since: number): void {
+    const changed = this.changes.get(name);
+    if (changed !== undefined && changed <= since) this.changes.delete(name);
+  }
+
+  close(): void {
+    if (this.debounce) clearTimeout(this.debounce);
+    for (const name of [...this.watched.keys()]) this.unwatch(name);
+  }
+
+  private changed(name: string): void {
+    const wasStale = this.changes.has(name);
+    this.changes.set(name, Date.now());
+    if (!wasStale) this.onStale?.(name);
+
+    this.pending.add(name);
+    if (this.debounce) clearTimeout(this.debounce);
+    this.debounce = setTimeout(() => {
+      this.debounce = null;
+      const names = [...this.pending];
+      this.pending.clear();
+      this.onSettled?.(names);
+    }, this.options.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+  }
+}